@@ -2,10 +2,39 @@
 import express from "express";
 import cors from "cors";
 import routes from "./routes"; // Import your root router
+import { NODE_ENV, TRUST_PROXY } from "./config/env";
+import { limitRequests } from "./middlewares/rate-limit.middleware";
+import { FILE_TEXT_BODY_LIMIT } from "./utils/validation.utils";
+
+/**
+ * Parses TRUST_PROXY into an Express "trust proxy" value: a hop count,
+ * true/false, or proxy addresses and subnets.
+ */
+function trustProxySetting(value: string): boolean | number | string {
+  if (!value || value === "false") return false;
+  if (value === "true") return true;
+  return /^\d+$/.test(value) ? Number(value) : value;
+}
+
+// Behind an unconfigured load balancer every client shares the
+// balancer's IP, and with it one rate limit
+if (NODE_ENV === "production" && !TRUST_PROXY) {
+  throw new Error(
+    'TRUST_PROXY must be set in production: a hop count, "true", proxy addresses, or "false" when clients connect directly.'
+  );
+}
 
 const app = express();
 
+app.set("trust proxy", trustProxySetting(TRUST_PROXY));
+
 app.use(cors()); // Enable CORS for all origins (for development)
+// Corrected file text is far larger than other bodies; parsed bodies are
+// skipped by the default parser below
+app.put(
+  "/api/v1/sessions/:sessionId/files/:fileIndex/text",
+  express.json({ limit: FILE_TEXT_BODY_LIMIT })
+);
 app.use(express.json()); // Enable JSON body parsing
 
 // Root route for API versioning or health check
@@ -14,6 +43,6 @@ app.get("/", (req, res) => {
 });
 
 // Mount your main API routes
-app.use("/api/v1", routes); // All your API routes will be under /api/v1
+app.use("/api/v1", limitRequests, routes); // All your API routes will be under /api/v1
 
 export default app;
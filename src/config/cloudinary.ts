@@ -14,9 +14,32 @@ cloudinary.config({
 
 export { cloudinary };
 
-export function getSignedCloudinaryUrl(publicId: string): string {
+// Uploads are stored under <UPLOAD_FOLDER>/<userId>/
+export const UPLOAD_FOLDER = "summaid";
+
+export function userUploadFolder(userId: string): string {
+  return `${UPLOAD_FOLDER}/${userId}`;
+}
+
+/**
+ * Whether a Cloudinary public id is one of the user's own uploads. Assets
+ * are fetched with our credentials, so any other id would let a user read
+ * someone else's files.
+ */
+export function isUserAsset(publicId: string, userId: string): boolean {
+  return (
+    publicId.startsWith(`${userUploadFolder(userId)}/`) &&
+    !publicId.split("/").includes("..")
+  );
+}
+
+export function getSignedCloudinaryUrl(
+  publicId: string,
+  resourceType: "image" | "raw" = "image"
+): string {
   return cloudinary.url(publicId, {
     type: "authenticated", // or "private" if using strict access mode
+    resource_type: resourceType,
     sign_url: true,
     expires_at: Math.floor(Date.now() / 1000) + 60 * 10, // 10 min expiry
     secure: true,
@@ -0,0 +1,13 @@
+import { Pool } from "pg";
+import { DATABASE_URL } from "./env";
+
+// Direct Postgres connection for workloads the Supabase REST client is not
+// suited to, such as row locking in the job queue
+export const pool = new Pool({
+  connectionString: DATABASE_URL,
+  max: 5,
+});
+
+pool.on("error", (error) => {
+  console.error("❌ Unexpected Postgres pool error:", error);
+});
@@ -1,12 +1,24 @@
 import dotenv from "dotenv";
+import * as os from "os";
+import * as path from "path";
 dotenv.config();
 
 export const PORT = process.env.PORT || "5000";
 export const NODE_ENV = process.env.NODE_ENV || "development";
+// Express "trust proxy" setting (hop count, "true", "false" or proxy
+// addresses), so rate limiting sees client IPs behind a load balancer.
+// Required in production
+export const TRUST_PROXY = process.env.TRUST_PROXY || "";
 
 export const OPENAI_API_KEY = process.env.OPENAI_API_KEY!;
 export const GEMINI_API_KEY = process.env.GEMINI_API_KEY!;
 
+export const LLM_PROVIDER = process.env.LLM_PROVIDER || "openai";
+export const LLM_FALLBACK_ENABLED =
+  process.env.LLM_FALLBACK_ENABLED !== "false";
+export const OPENAI_MODEL = process.env.OPENAI_MODEL || "gpt-4o";
+export const GEMINI_MODEL = process.env.GEMINI_MODEL || "gemini-2.5-flash";
+
 export const CLOUDINARY_CLOUD_NAME = process.env.CLOUDINARY_CLOUD_NAME!;
 export const CLOUDINARY_API_KEY = process.env.CLOUDINARY_API_KEY!;
 export const CLOUDINARY_API_SECRET = process.env.CLOUDINARY_API_SECRET!;
@@ -15,4 +27,86 @@ export const SUPABASE_URL = process.env.SUPABASE_URL!;
 export const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!;
 export const SUPABASE_JWT_SECRET = process.env.SUPABASE_JWT_SECRET!;
 
+// Tokens signed with asymmetric keys are checked against the project's JWKS,
+// or against a local JWKS file when SUPABASE_JWKS_FILE is set (for offline
+// testing)
+const SUPABASE_AUTH_URL = `${(SUPABASE_URL || "").replace(/\/+$/, "")}/auth/v1`;
+export const SUPABASE_JWKS_URL =
+  process.env.SUPABASE_JWKS_URL || `${SUPABASE_AUTH_URL}/.well-known/jwks.json`;
+export const SUPABASE_JWKS_FILE = process.env.SUPABASE_JWKS_FILE || "";
+export const SUPABASE_JWKS_CACHE_MS =
+  Number(process.env.SUPABASE_JWKS_CACHE_MS) || 10 * 60 * 1000;
+export const SUPABASE_JWT_AUDIENCE =
+  process.env.SUPABASE_JWT_AUDIENCE || "authenticated";
+export const SUPABASE_JWT_ISSUER =
+  process.env.SUPABASE_JWT_ISSUER || SUPABASE_AUTH_URL;
+// HS256 (the shared secret) is only accepted by default while it is configured
+export const SUPABASE_JWT_ALGORITHMS = (
+  process.env.SUPABASE_JWT_ALGORITHMS ||
+  (SUPABASE_JWT_SECRET ? "RS256,ES256,HS256" : "RS256,ES256")
+)
+  .split(",")
+  .map((algorithm) => algorithm.trim())
+  .filter(Boolean);
+
 export const DATABASE_URL = process.env.DATABASE_URL!;
+
+export const JOB_CONCURRENCY = Number(process.env.JOB_CONCURRENCY) || 2;
+export const JOB_MAX_ATTEMPTS = Number(process.env.JOB_MAX_ATTEMPTS) || 3;
+export const JOB_VISIBILITY_TIMEOUT_MS =
+  Number(process.env.JOB_VISIBILITY_TIMEOUT_MS) || 15 * 60 * 1000;
+
+// Per-user quotas. Every processing run, including regenerations, counts
+// towards the daily sessions; monthly quotas reset on the 1st (UTC)
+export const QUOTA_SESSIONS_PER_DAY =
+  Number(process.env.QUOTA_SESSIONS_PER_DAY) || 20;
+export const QUOTA_PAGES_PER_MONTH =
+  Number(process.env.QUOTA_PAGES_PER_MONTH) || 1000;
+export const QUOTA_CHARACTERS_PER_MONTH =
+  Number(process.env.QUOTA_CHARACTERS_PER_MONTH) || 5 * 1000 * 1000;
+export const QUOTA_TOKENS_PER_MONTH =
+  Number(process.env.QUOTA_TOKENS_PER_MONTH) || 2 * 1000 * 1000;
+
+// Requests allowed per window: per client IP across the API, per user once
+// authenticated, and per user for endpoints that call an LLM
+export const RATE_LIMIT_WINDOW_MS =
+  Number(process.env.RATE_LIMIT_WINDOW_MS) || 60 * 1000;
+export const RATE_LIMIT_MAX_REQUESTS =
+  Number(process.env.RATE_LIMIT_MAX_REQUESTS) || 300;
+export const RATE_LIMIT_MAX_USER_REQUESTS =
+  Number(process.env.RATE_LIMIT_MAX_USER_REQUESTS) || 300;
+export const RATE_LIMIT_MAX_LLM_REQUESTS =
+  Number(process.env.RATE_LIMIT_MAX_LLM_REQUESTS) || 20;
+
+export const UPLOAD_MAX_FILE_BYTES =
+  Number(process.env.UPLOAD_MAX_FILE_BYTES) || 25 * 1024 * 1024;
+export const UPLOAD_MAX_SESSION_BYTES =
+  Number(process.env.UPLOAD_MAX_SESSION_BYTES) || 100 * 1024 * 1024;
+
+// Extra hosts files may be downloaded from, besides Cloudinary and Supabase
+export const DOWNLOAD_ALLOWED_HOSTS = (process.env.DOWNLOAD_ALLOWED_HOSTS || "")
+  .split(",")
+  .map((host) => host.trim())
+  .filter(Boolean);
+export const DOWNLOAD_MAX_BYTES =
+  Number(process.env.DOWNLOAD_MAX_BYTES) || UPLOAD_MAX_FILE_BYTES;
+export const DOWNLOAD_TIMEOUT_MS =
+  Number(process.env.DOWNLOAD_TIMEOUT_MS) || 90000;
+
+// Tesseract workers in the OCR pool and files extracted at the same time
+export const OCR_POOL_SIZE =
+  Number(process.env.OCR_POOL_SIZE) || Math.max(1, os.availableParallelism());
+export const EXTRACTION_CONCURRENCY =
+  Number(process.env.EXTRACTION_CONCURRENCY) || OCR_POOL_SIZE;
+
+// Local traineddata directory, so OCR works without network access
+export const OCR_LANG_PATH =
+  process.env.OCR_LANG_PATH || path.resolve(process.cwd(), "tessdata");
+export const OCR_LANG_GZIP = process.env.OCR_LANG_GZIP === "true";
+// Languages with traineddata in OCR_LANG_PATH; the first is the default
+export const OCR_LANGUAGES = (process.env.OCR_LANGUAGES || "eng")
+  .split(",")
+  .map((language) => language.trim())
+  .filter(Boolean);
+export const OCR_MAX_LANGUAGE_POOLS =
+  Number(process.env.OCR_MAX_LANGUAGE_POOLS) || 2;
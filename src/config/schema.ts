@@ -0,0 +1,142 @@
+// summaid-backend/src/config/schema.ts
+import { pool } from "./database";
+
+// Serializes schema changes of instances that start at the same time
+const SCHEMA_LOCK_ID = 72954011;
+
+/**
+ * Tables, columns and indexes the backend relies on, in the order they were
+ * added. Every statement is idempotent and runs on each start, so the
+ * schema is changed by appending statements, never by editing earlier ones.
+ */
+const SCHEMA_STATEMENTS: string[] = [
+  `CREATE TABLE IF NOT EXISTS processing_jobs (
+    id BIGSERIAL PRIMARY KEY,
+    type TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    status TEXT NOT NULL DEFAULT 'queued',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL,
+    run_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    locked_until TIMESTAMPTZ,
+    locked_by TEXT,
+    last_error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+  )`,
+  `CREATE INDEX IF NOT EXISTS processing_jobs_claim_idx
+    ON processing_jobs (status, run_at)`,
+  `CREATE EXTENSION IF NOT EXISTS vector`,
+  // Embeddings of text-embedding-ada-002, which has 1536 dimensions
+  `CREATE TABLE IF NOT EXISTS document_chunks (
+    id BIGSERIAL PRIMARY KEY,
+    session_id TEXT NOT NULL,
+    file_name TEXT NOT NULL,
+    file_key TEXT,
+    chunk_index INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    embedding vector(1536) NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+  )`,
+  `CREATE INDEX IF NOT EXISTS document_chunks_session_idx
+    ON document_chunks (session_id, file_key)`,
+  `ALTER TABLE sessions
+    ADD COLUMN IF NOT EXISTS chat_history JSONB NOT NULL DEFAULT '[]'`,
+  `ALTER TABLE sessions ADD COLUMN IF NOT EXISTS artifact_models JSONB`,
+  `ALTER TABLE sessions ADD COLUMN IF NOT EXISTS title TEXT`,
+  `CREATE TABLE IF NOT EXISTS session_file_texts (
+    session_id TEXT NOT NULL,
+    file_key TEXT NOT NULL,
+    file_name TEXT NOT NULL,
+    text TEXT NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (session_id, file_key)
+  )`,
+  `ALTER TABLE session_file_texts
+    ADD COLUMN IF NOT EXISTS ocr_metadata JSONB`,
+  `ALTER TABLE sessions ADD COLUMN IF NOT EXISTS ocr_metadata JSONB`,
+  `ALTER TABLE session_file_texts
+    ADD COLUMN IF NOT EXISTS edited_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS indexed_at TIMESTAMPTZ`,
+  `CREATE TABLE IF NOT EXISTS flashcards (
+    id UUID PRIMARY KEY,
+    session_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    question TEXT NOT NULL,
+    answer TEXT NOT NULL,
+    difficulty TEXT,
+    tags TEXT[],
+    source_file TEXT,
+    ease_factor DOUBLE PRECISION NOT NULL,
+    interval_days INTEGER NOT NULL,
+    repetitions INTEGER NOT NULL,
+    lapses INTEGER NOT NULL,
+    due_at TIMESTAMPTZ NOT NULL,
+    last_reviewed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+  )`,
+  `CREATE INDEX IF NOT EXISTS flashcards_session_idx
+    ON flashcards (session_id, position)`,
+  `CREATE INDEX IF NOT EXISTS flashcards_due_idx
+    ON flashcards (user_id, due_at)`,
+  `ALTER TABLE sessions ADD COLUMN IF NOT EXISTS quiz JSONB`,
+  `CREATE TABLE IF NOT EXISTS quiz_attempts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    answers JSONB NOT NULL,
+    score DOUBLE PRECISION NOT NULL,
+    max_score INTEGER NOT NULL,
+    percentage DOUBLE PRECISION NOT NULL,
+    grading_model TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+  )`,
+  `CREATE INDEX IF NOT EXISTS quiz_attempts_session_idx
+    ON quiz_attempts (session_id, created_at)`,
+  `CREATE TABLE IF NOT EXISTS admin_actions (
+    id BIGSERIAL PRIMARY KEY,
+    admin_id TEXT NOT NULL,
+    action TEXT NOT NULL,
+    target_id TEXT NOT NULL,
+    details JSONB,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+  )`,
+  `CREATE INDEX IF NOT EXISTS admin_actions_target_idx
+    ON admin_actions (target_id, created_at)`,
+  `CREATE TABLE IF NOT EXISTS usage_events (
+    id BIGSERIAL PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    session_id TEXT,
+    source TEXT NOT NULL,
+    sessions INTEGER NOT NULL DEFAULT 0,
+    pages INTEGER NOT NULL DEFAULT 0,
+    characters BIGINT NOT NULL DEFAULT 0,
+    tokens BIGINT NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+  )`,
+  `CREATE INDEX IF NOT EXISTS usage_events_user_idx
+    ON usage_events (user_id, created_at)`,
+];
+
+/**
+ * Creates any missing tables, columns and indexes, then has PostgREST
+ * reload its schema cache so the Supabase client sees them. Must finish
+ * before the server accepts requests.
+ */
+export async function ensureSchema(): Promise<void> {
+  const client = await pool.connect();
+  try {
+    await client.query("SELECT pg_advisory_lock($1)", [SCHEMA_LOCK_ID]);
+    try {
+      for (const statement of SCHEMA_STATEMENTS) {
+        await client.query(statement);
+      }
+    } finally {
+      await client.query("SELECT pg_advisory_unlock($1)", [SCHEMA_LOCK_ID]);
+    }
+    await client.query("NOTIFY pgrst, 'reload schema'");
+  } finally {
+    client.release();
+  }
+}
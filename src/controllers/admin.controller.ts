@@ -0,0 +1,262 @@
+// summaid-backend/src/controllers/admin.controller.ts
+import { Response } from "express";
+import { AuthenticatedRequest } from "../types/request.d";
+import { adminService } from "../services/admin.service";
+import { sessionService } from "../services/session.service";
+import { toHttpError } from "../utils/error.utils";
+import { parsePositiveInt } from "../utils/validation.utils";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const MAX_REASON_LENGTH = 500;
+
+/**
+ * Parses `page` and `pageSize` query parameters, responding 400 when they
+ * are invalid.
+ * @returns The pagination, or null if a response was sent.
+ */
+function parsePagination(
+  req: AuthenticatedRequest,
+  res: Response
+): { page: number; pageSize: number } | null {
+  const page = parsePositiveInt(req.query.page, 1);
+  const pageSize = parsePositiveInt(req.query.pageSize, DEFAULT_PAGE_SIZE);
+
+  if (page === null || pageSize === null || pageSize > MAX_PAGE_SIZE) {
+    res.status(400).json({
+      message: `Bad Request: page must be a positive integer and pageSize an integer from 1 to ${MAX_PAGE_SIZE}.`,
+    });
+    return null;
+  }
+  return { page, pageSize };
+}
+
+/**
+ * Lists all users with their role and suspension status.
+ * Query: `page` (1-based) and `pageSize` (max 200).
+ */
+export const listUsers = async (req: AuthenticatedRequest, res: Response) => {
+  const authenticatedUser = req.user;
+  if (!authenticatedUser || !authenticatedUser.uid) {
+    res.status(401).json({
+      message: "Unauthorized: User not authenticated or UID missing.",
+    });
+    return;
+  }
+
+  const pagination = parsePagination(req, res);
+  if (!pagination) return;
+
+  try {
+    const { users, total } = await adminService.listUsers(
+      pagination.page,
+      pagination.pageSize
+    );
+    res.status(200).json({ users, ...pagination, total });
+  } catch (error: unknown) {
+    console.error("Failed to list users:", error);
+    const { statusCode, message } = toHttpError(
+      error,
+      "Internal server error while listing users."
+    );
+    res.status(statusCode).json({ message });
+  }
+};
+
+/**
+ * Lists sessions across all users, newest first.
+ * Query: `page`, `pageSize`, and optional `status` and `userId` filters,
+ * e.g. `status=failed` to find sessions to re-queue.
+ */
+export const listAllSessions = async (
+  req: AuthenticatedRequest,
+  res: Response
+) => {
+  const authenticatedUser = req.user;
+  if (!authenticatedUser || !authenticatedUser.uid) {
+    res.status(401).json({
+      message: "Unauthorized: User not authenticated or UID missing.",
+    });
+    return;
+  }
+
+  const pagination = parsePagination(req, res);
+  if (!pagination) return;
+
+  const { status, userId } = req.query;
+  if (
+    (status !== undefined && typeof status !== "string") ||
+    (userId !== undefined && typeof userId !== "string")
+  ) {
+    res.status(400).json({
+      message: "Bad Request: status and userId must be strings.",
+    });
+    return;
+  }
+
+  try {
+    const { sessions, total } = await sessionService.listSessions(
+      userId || null,
+      { ...pagination, status }
+    );
+    res.status(200).json({ sessions, ...pagination, total });
+  } catch (error: unknown) {
+    console.error("Failed to list sessions:", error);
+    const { statusCode, message } = toHttpError(
+      error,
+      "Internal server error while listing sessions."
+    );
+    res.status(statusCode).json({ message });
+  }
+};
+
+/**
+ * Returns any user's session, including its generated results.
+ */
+export const getAnySession = async (
+  req: AuthenticatedRequest,
+  res: Response
+) => {
+  const authenticatedUser = req.user;
+  if (!authenticatedUser || !authenticatedUser.uid) {
+    res.status(401).json({
+      message: "Unauthorized: User not authenticated or UID missing.",
+    });
+    return;
+  }
+
+  try {
+    const session = await sessionService.getSession(req.params.sessionId);
+    res.status(200).json({ session });
+  } catch (error: unknown) {
+    const { statusCode, message } = toHttpError(
+      error,
+      "Internal server error while fetching session."
+    );
+    res.status(statusCode).json({ message });
+  }
+};
+
+/**
+ * Queues a failed session for processing again.
+ * Body: optional `refresh` (default false) to re-extract every file.
+ * Responds 202 with the queued job id.
+ */
+export const requeueSession = async (
+  req: AuthenticatedRequest,
+  res: Response
+) => {
+  const authenticatedUser = req.user;
+  if (!authenticatedUser || !authenticatedUser.uid) {
+    res.status(401).json({
+      message: "Unauthorized: User not authenticated or UID missing.",
+    });
+    return;
+  }
+
+  const { sessionId } = req.params;
+  const { refresh } = req.body || {};
+
+  if (refresh !== undefined && typeof refresh !== "boolean") {
+    res
+      .status(400)
+      .json({ message: "Bad Request: refresh must be a boolean." });
+    return;
+  }
+
+  try {
+    const jobId = await adminService.requeueSession(
+      sessionId,
+      authenticatedUser.uid,
+      { refresh }
+    );
+    res.status(202).json({
+      message: "Session re-queued for processing.",
+      sessionId,
+      jobId,
+    });
+  } catch (error: unknown) {
+    console.error(`Failed to re-queue session ${sessionId}:`, error);
+    const { statusCode, message } = toHttpError(
+      error,
+      "Internal server error while re-queueing session."
+    );
+    res.status(statusCode).json({ message });
+  }
+};
+
+/**
+ * Suspends a user until the suspension is lifted.
+ * Body: optional `reason`, shown to other staff.
+ */
+export const suspendUser = async (req: AuthenticatedRequest, res: Response) => {
+  const authenticatedUser = req.user;
+  if (!authenticatedUser || !authenticatedUser.uid) {
+    res.status(401).json({
+      message: "Unauthorized: User not authenticated or UID missing.",
+    });
+    return;
+  }
+
+  const { userId } = req.params;
+  const { reason } = req.body || {};
+
+  if (
+    reason !== undefined &&
+    (typeof reason !== "string" || reason.length > MAX_REASON_LENGTH)
+  ) {
+    res.status(400).json({
+      message: `Bad Request: reason must be a string of at most ${MAX_REASON_LENGTH} characters.`,
+    });
+    return;
+  }
+
+  try {
+    const user = await adminService.suspendUser(
+      userId,
+      authenticatedUser.uid,
+      reason?.trim() || null
+    );
+    res.status(200).json({ user });
+  } catch (error: unknown) {
+    console.error(`Failed to suspend user ${userId}:`, error);
+    const { statusCode, message } = toHttpError(
+      error,
+      "Internal server error while suspending user."
+    );
+    res.status(statusCode).json({ message });
+  }
+};
+
+/**
+ * Lifts a user's suspension.
+ */
+export const unsuspendUser = async (
+  req: AuthenticatedRequest,
+  res: Response
+) => {
+  const authenticatedUser = req.user;
+  if (!authenticatedUser || !authenticatedUser.uid) {
+    res.status(401).json({
+      message: "Unauthorized: User not authenticated or UID missing.",
+    });
+    return;
+  }
+
+  const { userId } = req.params;
+
+  try {
+    const user = await adminService.unsuspendUser(
+      userId,
+      authenticatedUser.uid
+    );
+    res.status(200).json({ user });
+  } catch (error: unknown) {
+    console.error(`Failed to lift suspension of user ${userId}:`, error);
+    const { statusCode, message } = toHttpError(
+      error,
+      "Internal server error while lifting suspension."
+    );
+    res.status(statusCode).json({ message });
+  }
+};
@@ -2,25 +2,67 @@
 import { Request, Response } from "express";
 import { AuthenticatedRequest } from "../types/request.d";
 import { documentProcessingService } from "../services/document.service";
+import { chatService } from "../services/chat.service";
+import { progressService } from "../services/progress.service";
+import { sessionService } from "../services/session.service";
+import { uploadService } from "../services/upload.service";
+import { LLM_PROVIDERS } from "../services/llm.service";
+import { toHttpError } from "../utils/error.utils";
+import { withoutQuizAnswers } from "../utils/quiz.utils";
+import type { ProcessingEvent, ProcessingStage } from "../types";
+
+const TERMINAL_STATUSES = ["completed", "completed_with_errors", "failed"];
+const SSE_HEARTBEAT_MS = 15000;
+
+function stageForStatus(status: string): ProcessingStage {
+  if (status === "failed") return "failed";
+  if (TERMINAL_STATUSES.includes(status)) return "completed";
+  return status === "processing" ? "started" : "queued";
+}
 
 /**
  * Handles requests to initiate document processing for a given session.
- * This controller initiates a long-running background task and responds
- * immediately with a 202 Accepted status. The actual processing status
- * will be updated in the database by the documentProcessingService.
+ * This controller queues a durable background job and responds immediately
+ * with a 202 Accepted status. The actual processing status will be updated
+ * in the database by the documentProcessingService when a worker runs it.
+ * With `stream: true`, the summary and study guide are streamed as
+ * "streaming" events on GET /:sessionId/events while they are generated.
+ * `provider` overrides the session's preferred LLM provider for this run.
+ * Files extracted before reuse their cached text unless `refresh: true`.
  */
 export const processDocument = async (
   req: AuthenticatedRequest,
   res: Response
 ) => {
   const authenticatedUser = req.user;
-  const { sessionId } = req.body;
+  const { sessionId, stream, provider, refresh } = req.body;
 
   if (!sessionId) {
     res.status(400).json({ message: "Bad Request: sessionId is required." });
     return; // Explicitly return to end function execution
   }
 
+  if (stream !== undefined && typeof stream !== "boolean") {
+    res.status(400).json({ message: "Bad Request: stream must be a boolean." });
+    return;
+  }
+
+  if (refresh !== undefined && typeof refresh !== "boolean") {
+    res
+      .status(400)
+      .json({ message: "Bad Request: refresh must be a boolean." });
+    return;
+  }
+
+  if (provider !== undefined && !LLM_PROVIDERS.includes(provider)) {
+    res.status(400).json({
+      message: `Bad Request: provider must be one of ${LLM_PROVIDERS.join(
+        ", "
+      )}.`,
+    });
+    return;
+  }
+
   if (!authenticatedUser || !authenticatedUser.uid) {
     res
       .status(401)
@@ -31,38 +73,243 @@ export const processDocument = async (
   }
 
   try {
-    // Send an immediate 202 Accepted response.
-    if (!res.headersSent) {
-      res.status(202).json({
-        message:
-          "Document processing initiated. Check session status for updates.",
-        sessionId: sessionId,
-      });
-    }
+    // Persist a job so processing survives restarts; workers pick it up
+    const jobId = await documentProcessingService.queueProcessing(
+      sessionId,
+      authenticatedUser.uid,
+      { stream, provider, refresh }
+    );
 
-    // Initiate the long-running document processing in the background.
-    // Errors during this background processing will be handled within the service.
-    documentProcessingService
-      .initiateProcessing(sessionId, authenticatedUser.uid)
-      .catch((serviceError) => {
-        // Log any unhandled errors that escape the documentProcessingService
-        console.error(
-          `Unhandled error in background document processing for session ${sessionId}:`,
-          serviceError
-        );
-      });
-  } catch (error: any) {
-    // Handle synchronous errors that occur before the 202 response is sent.
+    res.status(202).json({
+      message: "Document processing queued. Check session status for updates.",
+      sessionId: sessionId,
+      jobId,
+    });
+  } catch (error: unknown) {
     console.error(
-      "Unexpected synchronous error in processDocument controller:",
+      `Failed to queue processing for session ${sessionId}:`,
       error
     );
-    if (!res.headersSent) {
-      res.status(500).json({
-        message:
-          error.message ||
-          "Internal server error during document processing initiation.",
+    const { statusCode, message } = toHttpError(
+      error,
+      "Internal server error during document processing initiation."
+    );
+    res.status(statusCode).json({ message });
+  }
+};
+
+/**
+ * Handles multipart uploads of study material. Files are streamed to
+ * Cloudinary as authenticated assets after their content type is verified.
+ * An optional `sessionId` field, sent before the files, appends them to an
+ * existing session. Responds with the stored file details, ready to be used
+ * as a session's `files`, and any per-file errors.
+ */
+export const uploadDocuments = async (
+  req: AuthenticatedRequest,
+  res: Response
+) => {
+  const authenticatedUser = req.user;
+
+  if (!authenticatedUser || !authenticatedUser.uid) {
+    res.status(401).json({
+      message: "Unauthorized: User not authenticated or UID missing.",
+    });
+    return;
+  }
+
+  try {
+    const { files, errors, session } = await uploadService.uploadFromRequest(
+      req,
+      authenticatedUser.uid
+    );
+
+    if (files.length === 0) {
+      res.status(400).json({
+        message: "Bad Request: no files were uploaded.",
+        errors,
       });
+      return;
     }
+
+    res.status(201).json({
+      files,
+      errors,
+      ...(session && { session: withoutQuizAnswers(session) }),
+    });
+  } catch (error: unknown) {
+    console.error("Failed to upload documents:", error);
+    const { statusCode, message } = toHttpError(
+      error,
+      "Internal server error during upload."
+    );
+    res.status(statusCode).json({ message });
+  }
+};
+
+/**
+ * Handles a chat question about a processed session. Retrieves the most
+ * relevant chunks of the session's documents and answers with citations.
+ */
+export const chatWithSession = async (
+  req: AuthenticatedRequest,
+  res: Response
+) => {
+  const authenticatedUser = req.user;
+  const { sessionId } = req.params;
+  const { question, topK, provider } = req.body || {};
+
+  if (!authenticatedUser || !authenticatedUser.uid) {
+    res.status(401).json({
+      message: "Unauthorized: User not authenticated or UID missing.",
+    });
+    return;
   }
+
+  if (typeof question !== "string" || !question.trim()) {
+    res.status(400).json({ message: "Bad Request: question is required." });
+    return;
+  }
+
+  if (
+    topK !== undefined &&
+    (!Number.isInteger(topK) || topK < 1 || topK > 20)
+  ) {
+    res
+      .status(400)
+      .json({ message: "Bad Request: topK must be an integer from 1 to 20." });
+    return;
+  }
+
+  if (provider !== undefined && !LLM_PROVIDERS.includes(provider)) {
+    res.status(400).json({
+      message: `Bad Request: provider must be one of ${LLM_PROVIDERS.join(
+        ", "
+      )}.`,
+    });
+    return;
+  }
+
+  try {
+    const answer = await chatService.answerQuestion(
+      sessionId,
+      authenticatedUser.uid,
+      question.trim(),
+      { topK, provider }
+    );
+    res.status(200).json({ sessionId, answer });
+  } catch (error: unknown) {
+    console.error(`Chat failed for session ${sessionId}:`, error);
+    const { statusCode, message } = toHttpError(
+      error,
+      "Internal server error during chat."
+    );
+    res.status(statusCode).json({ message });
+  }
+};
+
+/**
+ * Streams a session's processing progress as Server-Sent Events. The
+ * current status is sent first; the stream ends after a completed or
+ * failed event. EventSource cannot set headers, so clients must use a
+ * fetch-based SSE client that sends the Authorization header.
+ */
+export const streamSessionEvents = async (
+  req: AuthenticatedRequest,
+  res: Response
+) => {
+  const authenticatedUser = req.user;
+  const { sessionId } = req.params;
+
+  if (!authenticatedUser || !authenticatedUser.uid) {
+    res.status(401).json({
+      message: "Unauthorized: User not authenticated or UID missing.",
+    });
+    return;
+  }
+
+  // Events are held back until the current status has been sent
+  let pending: ProcessingEvent[] | null = [];
+  let onEvent: (event: ProcessingEvent) => void = () => undefined;
+
+  // Subscribing before reading the status means a run that finishes in
+  // between still delivers its terminal event
+  let unsubscribe: () => void;
+  let session;
+  try {
+    unsubscribe = await progressService.subscribe(sessionId, (event) => {
+      if (pending) pending.push(event);
+      else onEvent(event);
+    });
+  } catch (error: unknown) {
+    console.error(`Failed to subscribe to progress for ${sessionId}:`, error);
+    res.status(500).json({
+      message: "Internal server error while opening event stream.",
+    });
+    return;
+  }
+
+  try {
+    session = await sessionService.getOwnedSession(
+      sessionId,
+      authenticatedUser.uid
+    );
+  } catch (error: unknown) {
+    unsubscribe();
+    const { statusCode, message } = toHttpError(
+      error,
+      "Internal server error while opening event stream."
+    );
+    res.status(statusCode).json({ message });
+    return;
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no", // Disable proxy buffering (nginx)
+  });
+
+  const send = (event: ProcessingEvent) => {
+    res.write(`event: ${event.stage}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  const heartbeat = setInterval(
+    () => res.write(": ping\n\n"),
+    SSE_HEARTBEAT_MS
+  );
+
+  const close = () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    if (!res.writableEnded) res.end();
+  };
+
+  req.on("close", close);
+
+  send({
+    sessionId,
+    stage: stageForStatus(session.status),
+    message: `Current status: ${session.status}`,
+    status: session.status,
+    timestamp: new Date().toISOString(),
+  });
+
+  if (TERMINAL_STATUSES.includes(session.status)) {
+    close();
+    return;
+  }
+
+  onEvent = (event) => {
+    if (res.writableEnded) return;
+    send(event);
+    if (event.stage === "completed" || event.stage === "failed") close();
+  };
+  const held = pending;
+  pending = null;
+  held.forEach(onEvent);
+
+  // The client may have disconnected while we were subscribing
+  if (req.destroyed) close();
 };
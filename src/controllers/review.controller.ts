@@ -0,0 +1,101 @@
+// summaid-backend/src/controllers/review.controller.ts
+import { Response } from "express";
+import { AuthenticatedRequest } from "../types/request.d";
+import { flashcardService } from "../services/flashcard.service";
+import { toHttpError } from "../utils/error.utils";
+import { MAX_GRADE, MIN_GRADE } from "../utils/srs.utils";
+
+const DEFAULT_DUE_LIMIT = 50;
+const MAX_DUE_LIMIT = 200;
+
+/**
+ * Lists the authenticated user's flashcards that are due for review across
+ * all sessions, most overdue first.
+ * Query: `limit` (max 200) and optional `sessionId` to review one deck.
+ */
+export const getDueCards = async (req: AuthenticatedRequest, res: Response) => {
+  const authenticatedUser = req.user;
+  if (!authenticatedUser || !authenticatedUser.uid) {
+    res.status(401).json({
+      message: "Unauthorized: User not authenticated or UID missing.",
+    });
+    return;
+  }
+
+  const limit =
+    req.query.limit === undefined ? DEFAULT_DUE_LIMIT : Number(req.query.limit);
+  const { sessionId } = req.query;
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_DUE_LIMIT) {
+    res.status(400).json({
+      message: `Bad Request: limit must be an integer from 1 to ${MAX_DUE_LIMIT}.`,
+    });
+    return;
+  }
+
+  if (sessionId !== undefined && typeof sessionId !== "string") {
+    res
+      .status(400)
+      .json({ message: "Bad Request: sessionId must be a string." });
+    return;
+  }
+
+  try {
+    const { cards, total } = await flashcardService.getDueCards(
+      authenticatedUser.uid,
+      { limit, sessionId }
+    );
+    res.status(200).json({ cards, total });
+  } catch (error: unknown) {
+    console.error("Failed to list due flashcards:", error);
+    const { statusCode, message } = toHttpError(
+      error,
+      "Internal server error while listing due flashcards."
+    );
+    res.status(statusCode).json({ message });
+  }
+};
+
+/**
+ * Records a review of one flashcard and returns its new schedule.
+ * Body: `grade`, the recall quality from 0 (forgot) to 5 (perfect); 3 and
+ * above count as remembered.
+ */
+export const reviewFlashcard = async (
+  req: AuthenticatedRequest,
+  res: Response
+) => {
+  const authenticatedUser = req.user;
+  if (!authenticatedUser || !authenticatedUser.uid) {
+    res.status(401).json({
+      message: "Unauthorized: User not authenticated or UID missing.",
+    });
+    return;
+  }
+
+  const { flashcardId } = req.params;
+  const { grade } = req.body || {};
+
+  if (!Number.isInteger(grade) || grade < MIN_GRADE || grade > MAX_GRADE) {
+    res.status(400).json({
+      message: `Bad Request: grade must be an integer from ${MIN_GRADE} to ${MAX_GRADE}.`,
+    });
+    return;
+  }
+
+  try {
+    const card = await flashcardService.reviewCard(
+      flashcardId,
+      authenticatedUser.uid,
+      grade
+    );
+    res.status(200).json({ card });
+  } catch (error: unknown) {
+    console.error(`Failed to review flashcard ${flashcardId}:`, error);
+    const { statusCode, message } = toHttpError(
+      error,
+      "Internal server error while saving review."
+    );
+    res.status(statusCode).json({ message });
+  }
+};
@@ -0,0 +1,733 @@
+// summaid-backend/src/controllers/session.controller.ts
+import { Response } from "express";
+import { AuthenticatedRequest } from "../types/request.d";
+import { sessionService, SessionUpdate } from "../services/session.service";
+import { documentProcessingService } from "../services/document.service";
+import { EXPORT_FORMATS, exportService } from "../services/export.service";
+import { LLM_PROVIDERS } from "../services/llm.service";
+import { quizService } from "../services/quiz.service";
+import { uploadService } from "../services/upload.service";
+import { toHttpError } from "../utils/error.utils";
+import { DEFAULT_LOW_CONFIDENCE_THRESHOLD } from "../utils/ocr.utils";
+import { withoutQuizAnswers } from "../utils/quiz.utils";
+import {
+  parsePositiveInt,
+  validateFiles,
+  validateFileText,
+  validatePreferences,
+  validateQuizAnswers,
+  validateTitle,
+} from "../utils/validation.utils";
+import type {
+  ExportFormat,
+  GeneratedArtifact,
+  SessionFileInput,
+} from "../types";
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const ARTIFACTS: GeneratedArtifact[] = [
+  "summary",
+  "flashcards",
+  "studyGuide",
+  "quiz",
+];
+
+/**
+ * Lists the authenticated user's sessions.
+ * Query: `page` (1-based), `pageSize` (max 100) and optional `status`.
+ */
+export const listSessions = async (
+  req: AuthenticatedRequest,
+  res: Response
+) => {
+  const authenticatedUser = req.user;
+  if (!authenticatedUser || !authenticatedUser.uid) {
+    res.status(401).json({
+      message: "Unauthorized: User not authenticated or UID missing.",
+    });
+    return;
+  }
+
+  const page = parsePositiveInt(req.query.page, 1);
+  const pageSize = parsePositiveInt(req.query.pageSize, DEFAULT_PAGE_SIZE);
+  const { status } = req.query;
+
+  if (page === null || pageSize === null || pageSize > MAX_PAGE_SIZE) {
+    res.status(400).json({
+      message: `Bad Request: page must be a positive integer and pageSize an integer from 1 to ${MAX_PAGE_SIZE}.`,
+    });
+    return;
+  }
+
+  if (status !== undefined && typeof status !== "string") {
+    res.status(400).json({ message: "Bad Request: status must be a string." });
+    return;
+  }
+
+  try {
+    const { sessions, total } = await sessionService.listSessions(
+      authenticatedUser.uid,
+      { page, pageSize, status }
+    );
+    res.status(200).json({ sessions, page, pageSize, total });
+  } catch (error: unknown) {
+    console.error("Failed to list sessions:", error);
+    const { statusCode, message } = toHttpError(
+      error,
+      "Internal server error while listing sessions."
+    );
+    res.status(statusCode).json({ message });
+  }
+};
+
+/**
+ * Creates a session from a title, file list and processing preferences.
+ */
+export const createSession = async (
+  req: AuthenticatedRequest,
+  res: Response
+) => {
+  const authenticatedUser = req.user;
+  if (!authenticatedUser || !authenticatedUser.uid) {
+    res.status(401).json({
+      message: "Unauthorized: User not authenticated or UID missing.",
+    });
+    return;
+  }
+
+  const { title, files, preferences } = req.body || {};
+  const fileResult = validateFiles(files, authenticatedUser.uid);
+  const preferenceResult = validatePreferences(preferences);
+  const errors = [
+    ...validateTitle(title),
+    ...fileResult.errors,
+    ...preferenceResult.errors,
+  ];
+
+  if (errors.length > 0) {
+    res.status(400).json({ message: "Bad Request: invalid session.", errors });
+    return;
+  }
+
+  try {
+    const session = await sessionService.createSession(authenticatedUser.uid, {
+      title,
+      files: await uploadService.resolveFiles(fileResult.files),
+      preferences: preferenceResult.preferences!,
+    });
+    res.status(201).json({ session });
+  } catch (error: unknown) {
+    console.error("Failed to create session:", error);
+    const { statusCode, message } = toHttpError(
+      error,
+      "Internal server error while creating session."
+    );
+    res.status(statusCode).json({ message });
+  }
+};
+
+/**
+ * Returns a single session, including its generated results.
+ */
+export const getSession = async (req: AuthenticatedRequest, res: Response) => {
+  const authenticatedUser = req.user;
+  if (!authenticatedUser || !authenticatedUser.uid) {
+    res.status(401).json({
+      message: "Unauthorized: User not authenticated or UID missing.",
+    });
+    return;
+  }
+
+  try {
+    const session = await sessionService.getOwnedSession(
+      req.params.sessionId,
+      authenticatedUser.uid
+    );
+    res.status(200).json({ session: withoutQuizAnswers(session) });
+  } catch (error: unknown) {
+    const { statusCode, message } = toHttpError(
+      error,
+      "Internal server error while fetching session."
+    );
+    res.status(statusCode).json({ message });
+  }
+};
+
+/**
+ * Updates a session's title, files or preferences. Preferences may be
+ * partial; they are merged with the stored ones before validation.
+ */
+export const updateSession = async (
+  req: AuthenticatedRequest,
+  res: Response
+) => {
+  const authenticatedUser = req.user;
+  if (!authenticatedUser || !authenticatedUser.uid) {
+    res.status(401).json({
+      message: "Unauthorized: User not authenticated or UID missing.",
+    });
+    return;
+  }
+
+  const { sessionId } = req.params;
+  const { title, files, preferences } = req.body || {};
+
+  if (title === undefined && files === undefined && preferences === undefined) {
+    res.status(400).json({
+      message: "Bad Request: provide title, files or preferences to update.",
+    });
+    return;
+  }
+
+  try {
+    const update: SessionUpdate = {};
+    const errors = validateTitle(title);
+    if (title !== undefined) update.title = title;
+    const uid = authenticatedUser.uid;
+    const getCurrent = () => sessionService.getOwnedSession(sessionId, uid);
+
+    let fileInputs: SessionFileInput[] | undefined;
+    if (files !== undefined) {
+      const result = validateFiles(files, authenticatedUser.uid);
+      errors.push(...result.errors);
+      fileInputs = result.files;
+    }
+
+    if (preferences !== undefined) {
+      if (!preferences || typeof preferences !== "object") {
+        errors.push("preferences must be an object.");
+      } else {
+        const current = await getCurrent();
+        const result = validatePreferences({
+          ...current.preferences,
+          ...preferences,
+        });
+        errors.push(...result.errors);
+        if (result.preferences) update.preferences = result.preferences;
+      }
+    }
+
+    if (errors.length > 0) {
+      res
+        .status(400)
+        .json({ message: "Bad Request: invalid session update.", errors });
+      return;
+    }
+
+    if (fileInputs) {
+      const current = await getCurrent();
+      update.files = await uploadService.resolveFiles(
+        fileInputs,
+        current.files
+      );
+    }
+
+    const session = await sessionService.updateSession(
+      sessionId,
+      authenticatedUser.uid,
+      update
+    );
+    res.status(200).json({ session: withoutQuizAnswers(session) });
+  } catch (error: unknown) {
+    console.error(`Failed to update session ${sessionId}:`, error);
+    const { statusCode, message } = toHttpError(
+      error,
+      "Internal server error while updating session."
+    );
+    res.status(statusCode).json({ message });
+  }
+};
+
+/**
+ * Deletes a session and its indexed content.
+ */
+export const deleteSession = async (
+  req: AuthenticatedRequest,
+  res: Response
+) => {
+  const authenticatedUser = req.user;
+  if (!authenticatedUser || !authenticatedUser.uid) {
+    res.status(401).json({
+      message: "Unauthorized: User not authenticated or UID missing.",
+    });
+    return;
+  }
+
+  const { sessionId } = req.params;
+
+  try {
+    await sessionService.deleteSession(sessionId, authenticatedUser.uid);
+    res.status(204).send();
+  } catch (error: unknown) {
+    console.error(`Failed to delete session ${sessionId}:`, error);
+    const { statusCode, message } = toHttpError(
+      error,
+      "Internal server error while deleting session."
+    );
+    res.status(statusCode).json({ message });
+  }
+};
+
+/**
+ * Regenerates a single artifact (`summary`, `flashcards`, `studyGuide` or
+ * `quiz`) of a processed session from its cached text. Optional partial
+ * `preferences` are merged with the stored ones, e.g. to ask for more
+ * flashcards. Responds 202 with the queued job id.
+ */
+export const regenerateArtifact = async (
+  req: AuthenticatedRequest,
+  res: Response
+) => {
+  const authenticatedUser = req.user;
+  if (!authenticatedUser || !authenticatedUser.uid) {
+    res.status(401).json({
+      message: "Unauthorized: User not authenticated or UID missing.",
+    });
+    return;
+  }
+
+  const { sessionId } = req.params;
+  const artifact = req.params.artifact as GeneratedArtifact;
+  const { preferences, stream, provider } = req.body || {};
+
+  if (!ARTIFACTS.includes(artifact)) {
+    res.status(404).json({
+      message: `Unknown artifact. Use one of ${ARTIFACTS.join(", ")}.`,
+    });
+    return;
+  }
+
+  if (stream !== undefined && typeof stream !== "boolean") {
+    res.status(400).json({ message: "Bad Request: stream must be a boolean." });
+    return;
+  }
+
+  if (provider !== undefined && !LLM_PROVIDERS.includes(provider)) {
+    res.status(400).json({
+      message: `Bad Request: provider must be one of ${LLM_PROVIDERS.join(
+        ", "
+      )}.`,
+    });
+    return;
+  }
+
+  try {
+    let merged;
+    if (preferences !== undefined) {
+      if (!preferences || typeof preferences !== "object") {
+        res
+          .status(400)
+          .json({ message: "Bad Request: preferences must be an object." });
+        return;
+      }
+      const current = await sessionService.getOwnedSession(
+        sessionId,
+        authenticatedUser.uid
+      );
+      const result = validatePreferences({
+        ...current.preferences,
+        ...preferences,
+      });
+      if (result.errors.length > 0) {
+        res.status(400).json({
+          message: "Bad Request: invalid preferences.",
+          errors: result.errors,
+        });
+        return;
+      }
+      merged = result.preferences!;
+    }
+
+    const jobId = await documentProcessingService.regenerateArtifacts(
+      sessionId,
+      authenticatedUser.uid,
+      [artifact],
+      { preferences: merged, stream, provider }
+    );
+    res.status(202).json({
+      message: `Regeneration of ${artifact} queued.`,
+      sessionId,
+      jobId,
+    });
+  } catch (error: unknown) {
+    console.error(`Failed to regenerate ${artifact} for ${sessionId}:`, error);
+    const { statusCode, message } = toHttpError(
+      error,
+      "Internal server error while queueing regeneration."
+    );
+    res.status(statusCode).json({ message });
+  }
+};
+
+/**
+ * Adds a single file to a session. Processed sessions are reprocessed
+ * incrementally: only the new file is extracted.
+ */
+export const addSessionFile = async (
+  req: AuthenticatedRequest,
+  res: Response
+) => {
+  const authenticatedUser = req.user;
+  if (!authenticatedUser || !authenticatedUser.uid) {
+    res.status(401).json({
+      message: "Unauthorized: User not authenticated or UID missing.",
+    });
+    return;
+  }
+
+  const { sessionId } = req.params;
+  const { file } = req.body || {};
+  const result = validateFiles([file], authenticatedUser.uid);
+
+  if (result.errors.length > 0) {
+    res.status(400).json({
+      message: "Bad Request: invalid file.",
+      errors: result.errors.map((error) =>
+        error.replace(/^files\[0\]/, "file")
+      ),
+    });
+    return;
+  }
+
+  try {
+    const [file] = await uploadService.resolveFiles(result.files);
+    const { session, jobId } = await documentProcessingService.addFile(
+      sessionId,
+      authenticatedUser.uid,
+      file
+    );
+    res
+      .status(jobId ? 202 : 201)
+      .json({ session: withoutQuizAnswers(session), jobId });
+  } catch (error: unknown) {
+    console.error(`Failed to add file to session ${sessionId}:`, error);
+    const { statusCode, message } = toHttpError(
+      error,
+      "Internal server error while adding file."
+    );
+    res.status(statusCode).json({ message });
+  }
+};
+
+/**
+ * Removes a single file from a session by index. Processed sessions are
+ * regenerated from the remaining files without re-extracting them.
+ */
+export const removeSessionFile = async (
+  req: AuthenticatedRequest,
+  res: Response
+) => {
+  const authenticatedUser = req.user;
+  if (!authenticatedUser || !authenticatedUser.uid) {
+    res.status(401).json({
+      message: "Unauthorized: User not authenticated or UID missing.",
+    });
+    return;
+  }
+
+  const { sessionId } = req.params;
+  const fileIndex = Number(req.params.fileIndex);
+
+  if (!Number.isInteger(fileIndex) || fileIndex < 0) {
+    res.status(400).json({
+      message: "Bad Request: fileIndex must be a non-negative integer.",
+    });
+    return;
+  }
+
+  try {
+    const { session, jobId } = await documentProcessingService.removeFile(
+      sessionId,
+      authenticatedUser.uid,
+      fileIndex
+    );
+    res
+      .status(jobId ? 202 : 200)
+      .json({ session: withoutQuizAnswers(session), jobId });
+  } catch (error: unknown) {
+    console.error(`Failed to remove file from session ${sessionId}:`, error);
+    const { statusCode, message } = toHttpError(
+      error,
+      "Internal server error while removing file."
+    );
+    res.status(statusCode).json({ message });
+  }
+};
+
+/**
+ * Returns the extracted text of a file, as corrected by the user if it was
+ * edited.
+ */
+export const getSessionFileText = async (
+  req: AuthenticatedRequest,
+  res: Response
+) => {
+  const authenticatedUser = req.user;
+  if (!authenticatedUser || !authenticatedUser.uid) {
+    res.status(401).json({
+      message: "Unauthorized: User not authenticated or UID missing.",
+    });
+    return;
+  }
+
+  const { sessionId } = req.params;
+  const fileIndex = Number(req.params.fileIndex);
+
+  if (!Number.isInteger(fileIndex) || fileIndex < 0) {
+    res.status(400).json({
+      message: "Bad Request: fileIndex must be a non-negative integer.",
+    });
+    return;
+  }
+
+  try {
+    const file = await documentProcessingService.getFileText(
+      sessionId,
+      authenticatedUser.uid,
+      fileIndex
+    );
+    res.status(200).json({ file });
+  } catch (error: unknown) {
+    const { statusCode, message } = toHttpError(
+      error,
+      "Internal server error while fetching file text."
+    );
+    res.status(statusCode).json({ message });
+  }
+};
+
+/**
+ * Replaces the extracted text of a file with a corrected version.
+ * Body: `text` and optional `regenerate` (default true), which regenerates
+ * a processed session's artifacts from the corrected text. Responds 202
+ * when regeneration was queued.
+ */
+export const updateSessionFileText = async (
+  req: AuthenticatedRequest,
+  res: Response
+) => {
+  const authenticatedUser = req.user;
+  if (!authenticatedUser || !authenticatedUser.uid) {
+    res.status(401).json({
+      message: "Unauthorized: User not authenticated or UID missing.",
+    });
+    return;
+  }
+
+  const { sessionId } = req.params;
+  const fileIndex = Number(req.params.fileIndex);
+  const { text, regenerate } = req.body || {};
+
+  if (!Number.isInteger(fileIndex) || fileIndex < 0) {
+    res.status(400).json({
+      message: "Bad Request: fileIndex must be a non-negative integer.",
+    });
+    return;
+  }
+
+  const errors = validateFileText(text);
+  if (regenerate !== undefined && typeof regenerate !== "boolean") {
+    errors.push("regenerate must be a boolean.");
+  }
+  if (errors.length > 0) {
+    res.status(400).json({ message: "Bad Request: invalid text.", errors });
+    return;
+  }
+
+  try {
+    const { file, jobId } = await documentProcessingService.updateFileText(
+      sessionId,
+      authenticatedUser.uid,
+      fileIndex,
+      text,
+      { regenerate }
+    );
+    res.status(jobId ? 202 : 200).json({ file, jobId });
+  } catch (error: unknown) {
+    console.error(`Failed to update file text in session ${sessionId}:`, error);
+    const { statusCode, message } = toHttpError(
+      error,
+      "Internal server error while updating file text."
+    );
+    res.status(statusCode).json({ message });
+  }
+};
+
+/**
+ * Returns a file's extracted text with low-confidence OCR spans flagged,
+ * plus per-line and per-word OCR metadata. Query: optional `threshold`
+ * (0-100, default 60); words below it are flagged.
+ */
+export const getSessionFileOcr = async (
+  req: AuthenticatedRequest,
+  res: Response
+) => {
+  const authenticatedUser = req.user;
+  if (!authenticatedUser || !authenticatedUser.uid) {
+    res.status(401).json({
+      message: "Unauthorized: User not authenticated or UID missing.",
+    });
+    return;
+  }
+
+  const { sessionId } = req.params;
+  const fileIndex = Number(req.params.fileIndex);
+  const threshold =
+    req.query.threshold === undefined
+      ? DEFAULT_LOW_CONFIDENCE_THRESHOLD
+      : Number(req.query.threshold);
+
+  if (!Number.isInteger(fileIndex) || fileIndex < 0) {
+    res.status(400).json({
+      message: "Bad Request: fileIndex must be a non-negative integer.",
+    });
+    return;
+  }
+
+  if (!Number.isFinite(threshold) || threshold < 0 || threshold > 100) {
+    res.status(400).json({
+      message: "Bad Request: threshold must be a number from 0 to 100.",
+    });
+    return;
+  }
+
+  try {
+    const review = await documentProcessingService.getFileOcr(
+      sessionId,
+      authenticatedUser.uid,
+      fileIndex,
+      threshold
+    );
+    res.status(200).json(review);
+  } catch (error: unknown) {
+    const { statusCode, message } = toHttpError(
+      error,
+      "Internal server error while fetching OCR results."
+    );
+    res.status(statusCode).json({ message });
+  }
+};
+
+/**
+ * Grades a quiz attempt and stores its score.
+ * Body: `answers`, a list of `{ questionId, answer }`; skipped questions
+ * score 0. Responds 201 with the graded attempt.
+ */
+export const submitQuizAttempt = async (
+  req: AuthenticatedRequest,
+  res: Response
+) => {
+  const authenticatedUser = req.user;
+  if (!authenticatedUser || !authenticatedUser.uid) {
+    res.status(401).json({
+      message: "Unauthorized: User not authenticated or UID missing.",
+    });
+    return;
+  }
+
+  const { sessionId } = req.params;
+  const { answers, errors } = validateQuizAnswers((req.body || {}).answers);
+
+  if (errors.length > 0) {
+    res.status(400).json({ message: "Bad Request: invalid answers.", errors });
+    return;
+  }
+
+  try {
+    const attempt = await quizService.submitAttempt(
+      sessionId,
+      authenticatedUser.uid,
+      answers
+    );
+    res.status(201).json({ attempt });
+  } catch (error: unknown) {
+    console.error(`Failed to grade quiz attempt for ${sessionId}:`, error);
+    const { statusCode, message } = toHttpError(
+      error,
+      "Internal server error while grading quiz attempt."
+    );
+    res.status(statusCode).json({ message });
+  }
+};
+
+/**
+ * Lists a session's graded quiz attempts, newest first.
+ */
+export const listQuizAttempts = async (
+  req: AuthenticatedRequest,
+  res: Response
+) => {
+  const authenticatedUser = req.user;
+  if (!authenticatedUser || !authenticatedUser.uid) {
+    res.status(401).json({
+      message: "Unauthorized: User not authenticated or UID missing.",
+    });
+    return;
+  }
+
+  try {
+    const attempts = await quizService.listAttempts(
+      req.params.sessionId,
+      authenticatedUser.uid
+    );
+    res.status(200).json({ attempts });
+  } catch (error: unknown) {
+    const { statusCode, message } = toHttpError(
+      error,
+      "Internal server error while fetching quiz attempts."
+    );
+    res.status(statusCode).json({ message });
+  }
+};
+
+/**
+ * Downloads a session's generated materials as a file.
+ * Query: `format`, one of `apkg` (Anki deck), `csv` (flashcards), `md`
+ * (all materials) or `pdf` (study guide).
+ */
+export const exportSession = async (
+  req: AuthenticatedRequest,
+  res: Response
+) => {
+  const authenticatedUser = req.user;
+  if (!authenticatedUser || !authenticatedUser.uid) {
+    res.status(401).json({
+      message: "Unauthorized: User not authenticated or UID missing.",
+    });
+    return;
+  }
+
+  const { sessionId } = req.params;
+  const format = req.query.format as ExportFormat;
+
+  if (!EXPORT_FORMATS.includes(format)) {
+    res.status(400).json({
+      message: `Bad Request: format must be one of ${EXPORT_FORMATS.join(
+        ", "
+      )}.`,
+    });
+    return;
+  }
+
+  try {
+    const file = await exportService.exportSession(
+      sessionId,
+      authenticatedUser.uid,
+      format
+    );
+    res.setHeader("Content-Type", file.contentType);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${file.fileName}"`
+    );
+    res.status(200).send(file.content);
+  } catch (error: unknown) {
+    console.error(`Failed to export session ${sessionId} as ${format}:`, error);
+    const { statusCode, message } = toHttpError(
+      error,
+      "Internal server error while exporting session."
+    );
+    res.status(statusCode).json({ message });
+  }
+};
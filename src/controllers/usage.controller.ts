@@ -0,0 +1,33 @@
+// summaid-backend/src/controllers/usage.controller.ts
+import { Response } from "express";
+import { AuthenticatedRequest } from "../types/request.d";
+import { usageService } from "../services/usage.service";
+import { toHttpError } from "../utils/error.utils";
+
+/**
+ * Reports the authenticated user's consumption against each quota:
+ * sessions processed today, and pages, characters and AI tokens this
+ * month.
+ */
+export const getUsage = async (req: AuthenticatedRequest, res: Response) => {
+  const authenticatedUser = req.user;
+
+  if (!authenticatedUser || !authenticatedUser.uid) {
+    res.status(401).json({
+      message: "Unauthorized: User not authenticated or UID missing.",
+    });
+    return;
+  }
+
+  try {
+    const usage = await usageService.getUsage(authenticatedUser.uid);
+    res.status(200).json({ usage });
+  } catch (error: unknown) {
+    console.error("Failed to fetch usage:", error);
+    const { statusCode, message } = toHttpError(
+      error,
+      "Internal server error while fetching usage."
+    );
+    res.status(statusCode).json({ message });
+  }
+};
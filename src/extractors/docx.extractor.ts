@@ -0,0 +1,17 @@
+import * as mammoth from "mammoth";
+import { DOCX_MIME_TYPE } from "../utils/file-type.utils";
+import { extractorRegistry } from "./registry";
+
+extractorRegistry.register({
+  name: "docx",
+  mimeTypes: [DOCX_MIME_TYPE],
+  async extract(fileBuffer) {
+    const result = await mammoth.extractRawText({
+      arrayBuffer: fileBuffer.buffer.slice(
+        fileBuffer.byteOffset,
+        fileBuffer.byteOffset + fileBuffer.byteLength
+      ) as ArrayBuffer,
+    });
+    return result.value || "";
+  },
+});
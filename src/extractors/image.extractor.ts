@@ -0,0 +1,18 @@
+import { ocrService } from "../services/ocr.service";
+import { extractorRegistry } from "./registry";
+
+extractorRegistry.register({
+  name: "image",
+  mimeTypes: ["image/*"],
+  async extract(fileBuffer, fileDetail, context) {
+    const result = await ocrService.performOCRWithRetry(
+      fileBuffer,
+      fileDetail.mimeType,
+      3,
+      context.onOcrProgress,
+      context.ocrLanguages
+    );
+    context.onOcrResult?.(result);
+    return result.text;
+  },
+});
@@ -0,0 +1,14 @@
+// Each extractor registers itself with the registry when imported.
+// To support a new format, add a *.extractor.ts file and import it here.
+import "./text.extractor";
+import "./pdf.extractor";
+import "./docx.extractor";
+import "./pptx.extractor";
+import "./image.extractor";
+
+export { extractorRegistry } from "./registry";
+export type {
+  ExtractionContext,
+  TextExtractor,
+  ResolvedExtractor,
+} from "./registry";
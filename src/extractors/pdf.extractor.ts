@@ -0,0 +1,84 @@
+import { ocrService } from "../services/ocr.service";
+import { readPdfPages, rasterizePdfPages } from "../utils/pdf.utils";
+import { extractorRegistry } from "./registry";
+
+// Pages with fewer non-whitespace characters than this are treated as
+// scanned images and sent through OCR
+const MIN_PAGE_TEXT_CHARS = 20;
+
+extractorRegistry.register({
+  name: "pdf",
+  mimeTypes: ["application/pdf"],
+  async extract(fileBuffer, fileDetail, context) {
+    let pages: string[] | null = null;
+    try {
+      pages = await readPdfPages(fileBuffer);
+    } catch (error) {
+      console.warn(
+        `⚠️ Could not read text layer of ${fileDetail.fileName}, falling back to OCR:`,
+        error
+      );
+    }
+
+    const pagesNeedingOcr = pages
+      ? pages
+          .map((text, i) => ({ pageNumber: i + 1, text }))
+          .filter(
+            ({ text }) => text.replace(/\s/g, "").length < MIN_PAGE_TEXT_CHARS
+          )
+          .map(({ pageNumber }) => pageNumber)
+      : undefined;
+
+    const pageTexts = new Map<number, string>();
+    pages?.forEach((text, i) => pageTexts.set(i + 1, text.trim()));
+
+    if (!pagesNeedingOcr || pagesNeedingOcr.length > 0) {
+      console.log(
+        `🖨️ ${fileDetail.fileName}: OCR on ${
+          pagesNeedingOcr ? pagesNeedingOcr.length : "all"
+        } image-only page(s)`
+      );
+
+      const totalPages = pagesNeedingOcr?.length;
+      let pagesDone = 0;
+
+      for await (const { pageNumber, image } of rasterizePdfPages(
+        fileBuffer,
+        pagesNeedingOcr
+      )) {
+        // Overall progress across pages when the page count is known
+        const onPageProgress = context.onOcrProgress
+          ? (progress: number) =>
+              context.onOcrProgress!(
+                totalPages ? (pagesDone + progress) / totalPages : progress
+              )
+          : undefined;
+
+        try {
+          const result = await ocrService.performOCRWithRetry(
+            image,
+            "image/png",
+            2,
+            onPageProgress,
+            context.ocrLanguages
+          );
+          pageTexts.set(pageNumber, result.text);
+          context.onOcrResult?.(result, pageNumber);
+        } catch (error) {
+          // Keep whatever text layer the page had rather than failing the file
+          console.warn(
+            `⚠️ OCR failed for page ${pageNumber} of ${fileDetail.fileName}:`,
+            error
+          );
+        }
+        pagesDone++;
+      }
+    }
+
+    return [...pageTexts.entries()]
+      .sort(([a], [b]) => a - b)
+      .filter(([, text]) => text.trim())
+      .map(([pageNumber, text]) => `--- Page ${pageNumber} ---\n${text}`)
+      .join("\n\n");
+  },
+});
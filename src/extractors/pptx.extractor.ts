@@ -0,0 +1,9 @@
+import { PPTX_MIME_TYPE } from "../utils/file-type.utils";
+import { extractTextFromPptx } from "../utils/pptx.utils";
+import { extractorRegistry } from "./registry";
+
+extractorRegistry.register({
+  name: "pptx",
+  mimeTypes: [PPTX_MIME_TYPE],
+  extract: extractTextFromPptx,
+});
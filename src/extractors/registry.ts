@@ -0,0 +1,112 @@
+import type { OCRResult } from "../services/ocr.service";
+import type { CloudinaryFileDetail, OCRLanguages } from "../types";
+import { detectMimeType, looksLikeText } from "../utils/file-type.utils";
+
+export interface ExtractionContext {
+  /** Reports OCR progress (0..1) for formats that run OCR */
+  onOcrProgress?: (progress: number) => void;
+  /** Languages for OCR; defaults to the first configured language */
+  ocrLanguages?: OCRLanguages;
+  /** Receives each OCR result, with the page number for PDFs */
+  onOcrResult?: (result: OCRResult, pageNumber?: number) => void;
+}
+
+export interface TextExtractor {
+  /** Human-readable format name used in logs and errors */
+  name: string;
+  /** MIME types handled; a trailing "/*" matches a whole family */
+  mimeTypes: string[];
+  /** Receives the file detail with `mimeType` set to the resolved type */
+  extract(
+    fileBuffer: Buffer,
+    fileDetail: CloudinaryFileDetail,
+    context: ExtractionContext
+  ): Promise<string>;
+}
+
+export interface ResolvedExtractor {
+  extractor: TextExtractor;
+  mimeType: string;
+}
+
+class ExtractorRegistry {
+  private extractors: TextExtractor[] = [];
+
+  /**
+   * Registers an extractor. Later registrations take precedence for the
+   * MIME types they share with earlier ones.
+   */
+  register(extractor: TextExtractor): void {
+    this.extractors.unshift(extractor);
+  }
+
+  /**
+   * Finds the extractor registered for a MIME type, if any.
+   */
+  findByMimeType(mimeType: string): TextExtractor | null {
+    const normalized = mimeType.split(";")[0].trim().toLowerCase();
+    if (!normalized) return null;
+
+    return (
+      this.extractors.find((extractor) =>
+        extractor.mimeTypes.some((pattern) =>
+          pattern.endsWith("/*")
+            ? normalized.startsWith(pattern.slice(0, -1))
+            : normalized === pattern
+        )
+      ) || null
+    );
+  }
+
+  /**
+   * Resolves the extractor for a file. The type sniffed from magic bytes
+   * wins over the declared MIME type; the declared type is only used for
+   * formats without a signature (e.g. plain text).
+   * @throws An error naming the file when no extractor supports it.
+   */
+  resolve(
+    fileBuffer: Buffer,
+    fileDetail: CloudinaryFileDetail
+  ): ResolvedExtractor {
+    const declared = (fileDetail.mimeType || "").toLowerCase();
+    const sniffed = detectMimeType(fileBuffer);
+
+    if (sniffed) {
+      if (declared && declared !== sniffed) {
+        console.warn(
+          `⚠️ ${fileDetail.fileName}: declared ${declared} but content is ${sniffed}`
+        );
+      }
+      const extractor = this.findByMimeType(sniffed);
+      if (!extractor) {
+        throw new Error(
+          `Unsupported file type ${sniffed} for ${fileDetail.fileName}`
+        );
+      }
+      return { extractor, mimeType: sniffed };
+    }
+
+    if (!looksLikeText(fileBuffer)) {
+      throw new Error(
+        `Unsupported or unrecognised binary file type${
+          declared ? ` (declared ${declared})` : ""
+        } for ${fileDetail.fileName}`
+      );
+    }
+
+    // Signature-less text: honour a declared text-like type, else plain text
+    const mimeType =
+      declared && this.findByMimeType(declared)?.name === "text"
+        ? declared
+        : "text/plain";
+    const extractor = this.findByMimeType(mimeType);
+    if (!extractor) {
+      throw new Error(
+        `Unsupported file type ${mimeType} for ${fileDetail.fileName}`
+      );
+    }
+    return { extractor, mimeType };
+  }
+}
+
+export const extractorRegistry = new ExtractorRegistry();
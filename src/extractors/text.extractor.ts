@@ -0,0 +1,14 @@
+import { extractorRegistry } from "./registry";
+
+extractorRegistry.register({
+  name: "text",
+  mimeTypes: [
+    "text/*",
+    "application/json",
+    "application/xml",
+    "application/x-markdown",
+  ],
+  async extract(fileBuffer) {
+    return fileBuffer.toString("utf8");
+  },
+});
@@ -1,9 +1,12 @@
 import { Request, Response, NextFunction } from "express";
 import { authService } from "../services/auth.service";
+import { limitUserRequests } from "./rate-limit.middleware";
+import type { UserRole } from "../types/request.d";
 
 /**
  * Middleware to verify Supabase JWT token from Authorization header.
- * Attaches the decoded user token to req.user if authentication is successful.
+ * Attaches the decoded user token to req.user if authentication is successful,
+ * then applies the per-user rate limit.
  */
 export const authenticateToken = async (
   req: Request, // Use standard Request instead of AuthenticatedRequest
@@ -23,8 +26,15 @@ export const authenticateToken = async (
 
   try {
     const decodedToken = await authService.verifySupabaseToken(accessToken);
+
+    // Tokens issued before a suspension stay valid until they expire
+    if (await authService.isSuspended(decodedToken.sub)) {
+      res.status(403).json({ message: "Forbidden: Account suspended." });
+      return;
+    }
+
     req.user = decodedToken; // This now works thanks to module augmentation
-    next();
+    limitUserRequests(req, res, next);
   } catch (error: unknown) {
     console.error("Authentication failed:", error);
 
@@ -35,3 +45,27 @@ export const authenticateToken = async (
     return;
   }
 };
+
+/**
+ * Middleware allowing only users with one of the given roles, read from
+ * the token's `app_metadata.role`. Must run after authenticateToken.
+ */
+export const requireRole =
+  (...roles: UserRole[]) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      res
+        .status(401)
+        .json({ message: "Unauthorized: User not authenticated." });
+      return;
+    }
+
+    const role = req.user.app_metadata?.role;
+    if (!role || !roles.includes(role)) {
+      res.status(403).json({
+        message: `Forbidden: Requires the ${roles.join(" or ")} role.`,
+      });
+      return;
+    }
+    next();
+  };
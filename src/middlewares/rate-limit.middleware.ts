@@ -0,0 +1,98 @@
+import { Request, Response, NextFunction } from "express";
+import {
+  RATE_LIMIT_MAX_LLM_REQUESTS,
+  RATE_LIMIT_MAX_REQUESTS,
+  RATE_LIMIT_MAX_USER_REQUESTS,
+  RATE_LIMIT_WINDOW_MS,
+} from "../config/env";
+
+const MAX_TRACKED_CLIENTS = 10000;
+
+interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+  /** Identifies the client; requests without a key are not limited */
+  keyFor: (req: Request) => string | null | undefined;
+}
+
+/**
+ * Creates a fixed-window rate limiter. Counts are kept in memory, so each
+ * instance limits on its own. Responses carry RateLimit-* headers, and
+ * requests over the limit get a 429 with Retry-After.
+ */
+export const rateLimit = ({ windowMs, max, keyFor }: RateLimitOptions) => {
+  // Windows are re-inserted when they restart, so with a fixed windowMs the
+  // map stays ordered by resetAt and the oldest windows come first
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  // Drops expired windows, then the oldest live ones while still full
+  const evict = (now: number) => {
+    for (const [client, { resetAt }] of windows) {
+      if (resetAt > now && windows.size < MAX_TRACKED_CLIENTS) break;
+      windows.delete(client);
+    }
+  };
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const key = keyFor(req);
+    if (!key) {
+      next();
+      return;
+    }
+
+    const now = Date.now();
+    let window = windows.get(key);
+    if (!window || window.resetAt <= now) {
+      windows.delete(key);
+      if (windows.size >= MAX_TRACKED_CLIENTS) evict(now);
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(key, window);
+    }
+    window.count++;
+
+    const resetSeconds = Math.ceil((window.resetAt - now) / 1000);
+    res.setHeader("RateLimit-Limit", max);
+    res.setHeader("RateLimit-Remaining", Math.max(max - window.count, 0));
+    res.setHeader("RateLimit-Reset", resetSeconds);
+
+    if (window.count > max) {
+      res.setHeader("Retry-After", resetSeconds);
+      res.status(429).json({
+        message: `Too Many Requests: Try again in ${resetSeconds} seconds.`,
+      });
+      return;
+    }
+    next();
+  };
+};
+
+/**
+ * Limits requests per client IP across the API. Runs before
+ * authentication, so it only guards against floods; clients sharing an IP
+ * share this limit.
+ */
+export const limitRequests = rateLimit({
+  windowMs: RATE_LIMIT_WINDOW_MS,
+  max: RATE_LIMIT_MAX_REQUESTS,
+  keyFor: (req) => req.ip,
+});
+
+/**
+ * Limits requests per authenticated user across the API. Called by
+ * authenticateToken.
+ */
+export const limitUserRequests = rateLimit({
+  windowMs: RATE_LIMIT_WINDOW_MS,
+  max: RATE_LIMIT_MAX_USER_REQUESTS,
+  keyFor: (req) => req.user?.uid,
+});
+
+/**
+ * Limits requests per user to endpoints that call an LLM. Must run after
+ * authenticateToken.
+ */
+export const limitLlmRequests = rateLimit({
+  windowMs: RATE_LIMIT_WINDOW_MS,
+  max: RATE_LIMIT_MAX_LLM_REQUESTS,
+  keyFor: (req) => req.user?.uid,
+});
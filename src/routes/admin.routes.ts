@@ -0,0 +1,26 @@
+// summaid-backend/src/routes/admin.routes.ts
+import { Router } from "express";
+import { authenticateToken, requireRole } from "../middlewares/auth.middleware";
+import {
+  listUsers,
+  listAllSessions,
+  getAnySession,
+  requeueSession,
+  suspendUser,
+  unsuspendUser,
+} from "../controllers/admin.controller";
+
+const router = Router();
+
+// Support staff can inspect any account; only admins can suspend users
+router.use(authenticateToken, requireRole("admin", "support"));
+
+router.get("/users", listUsers);
+router.post("/users/:userId/suspend", requireRole("admin"), suspendUser);
+router.post("/users/:userId/unsuspend", requireRole("admin"), unsuspendUser);
+
+router.get("/sessions", listAllSessions);
+router.get("/sessions/:sessionId", getAnySession);
+router.post("/sessions/:sessionId/requeue", requeueSession);
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router } from "express";
 import { getAuthenticatedUserProfile } from "../controllers/auth.controller"; // Import your controller
+import { getUsage } from "../controllers/usage.controller";
 import { authenticateToken } from "../middlewares/auth.middleware";
 
 const router = Router();
@@ -7,4 +8,7 @@ const router = Router();
 // Define a protected route: it will first pass through authenticateToken
 router.get("/profile", authenticateToken, getAuthenticatedUserProfile);
 
+// Consumption against the user's processing and AI quotas
+router.get("/me/usage", authenticateToken, getUsage);
+
 export default router;
@@ -1,12 +1,32 @@
 // summaid-backend/src/routes/document.routes.ts
 import { Router } from "express";
 import { authenticateToken } from "../middlewares/auth.middleware"; // Import your auth middleware
-import { processDocument } from "../controllers/document.controller"; // Import your controller
+import { limitLlmRequests } from "../middlewares/rate-limit.middleware";
+import {
+  processDocument,
+  uploadDocuments,
+  chatWithSession,
+  streamSessionEvents,
+} from "../controllers/document.controller"; // Import your controller
 
 const router = Router();
 
 // Define the POST route for initiating document processing
 // It's protected by the authenticateToken middleware.
-router.post("/process", authenticateToken, processDocument);
+router.post("/process", authenticateToken, limitLlmRequests, processDocument);
+
+// Upload files (multipart/form-data) to storage for use in a session
+router.post("/upload", authenticateToken, uploadDocuments);
+
+// Ask a question about a processed session's documents
+router.post(
+  "/:sessionId/chat",
+  authenticateToken,
+  limitLlmRequests,
+  chatWithSession
+);
+
+// Stream processing progress as Server-Sent Events
+router.get("/:sessionId/events", authenticateToken, streamSessionEvents);
 
 export default router;
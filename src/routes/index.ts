@@ -2,6 +2,9 @@
 import { Router } from "express";
 import userRoutes from "./auth.routes"; // Import your user routes
 import documentRoutes from "./document.routes"; // NEW: Import document processing routes
+import sessionRoutes from "./session.routes";
+import reviewRoutes from "./review.routes";
+import adminRoutes from "./admin.routes";
 
 const router = Router();
 
@@ -13,5 +16,8 @@ router.get("/test", (req, res) => {
 // Use your specific routers
 router.use("/users", userRoutes); // Mount user routes under /api/v1/users
 router.use("/documents", documentRoutes); // NEW: Mount document routes under /api/v1/documents
+router.use("/sessions", sessionRoutes); // Mount session CRUD routes under /api/v1/sessions
+router.use("/reviews", reviewRoutes); // Mount flashcard review routes under /api/v1/reviews
+router.use("/admin", adminRoutes); // Mount staff-only routes under /api/v1/admin
 
 export default router;
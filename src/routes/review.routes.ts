@@ -0,0 +1,14 @@
+// summaid-backend/src/routes/review.routes.ts
+import { Router } from "express";
+import { authenticateToken } from "../middlewares/auth.middleware";
+import { getDueCards, reviewFlashcard } from "../controllers/review.controller";
+
+const router = Router();
+
+// Spaced repetition over the authenticated user's flashcards
+router.use(authenticateToken);
+
+router.get("/due", getDueCards);
+router.post("/:flashcardId", reviewFlashcard);
+
+export default router;
@@ -0,0 +1,61 @@
+// summaid-backend/src/routes/session.routes.ts
+import { Router } from "express";
+import { authenticateToken } from "../middlewares/auth.middleware";
+import { limitLlmRequests } from "../middlewares/rate-limit.middleware";
+import {
+  listSessions,
+  createSession,
+  getSession,
+  updateSession,
+  deleteSession,
+  regenerateArtifact,
+  addSessionFile,
+  removeSessionFile,
+  getSessionFileText,
+  updateSessionFileText,
+  getSessionFileOcr,
+  submitQuizAttempt,
+  listQuizAttempts,
+  exportSession,
+} from "../controllers/session.controller";
+
+const router = Router();
+
+// All session routes act on the authenticated user's own sessions
+router.use(authenticateToken);
+
+router.get("/", listSessions);
+router.post("/", createSession);
+router.get("/:sessionId", getSession);
+router.patch("/:sessionId", updateSession);
+router.delete("/:sessionId", deleteSession);
+router.get("/:sessionId/export", exportSession);
+
+// Incremental changes; unchanged files reuse their cached text. These
+// reprocess the session, so they share the LLM rate limit
+router.post(
+  "/:sessionId/regenerate/:artifact",
+  limitLlmRequests,
+  regenerateArtifact
+);
+router.post("/:sessionId/files", limitLlmRequests, addSessionFile);
+router.delete(
+  "/:sessionId/files/:fileIndex",
+  limitLlmRequests,
+  removeSessionFile
+);
+
+// Extracted text review and correction
+router.get("/:sessionId/files/:fileIndex/text", getSessionFileText);
+router.put(
+  "/:sessionId/files/:fileIndex/text",
+  limitLlmRequests,
+  updateSessionFileText
+);
+router.get("/:sessionId/files/:fileIndex/ocr", getSessionFileOcr);
+
+// Quiz self-tests
+router.post("/:sessionId/quiz/attempts", limitLlmRequests, submitQuizAttempt);
+router.get("/:sessionId/quiz/attempts", listQuizAttempts);
+
+export default router;
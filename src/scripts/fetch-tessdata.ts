@@ -0,0 +1,49 @@
+// summaid-backend/src/scripts/fetch-tessdata.ts
+// Downloads the Tesseract traineddata that OCR reads from OCR_LANG_PATH.
+// Usage: pnpm tessdata
+import { existsSync } from "fs";
+import { mkdir, writeFile } from "fs/promises";
+import * as path from "path";
+import { gzipSync } from "zlib";
+import { OCR_LANG_GZIP, OCR_LANG_PATH, OCR_LANGUAGES } from "../config/env";
+import { OSD_LANGUAGE, requiredTraineddata } from "../utils/ocr.utils";
+
+// Fast LSTM models for recognition; OSD needs the legacy engine's model
+const TESSDATA_URL = "https://github.com/tesseract-ocr/tessdata_fast/raw/main";
+const OSD_TESSDATA_URL = "https://github.com/tesseract-ocr/tessdata/raw/main";
+
+async function fetchTraineddata(file: string): Promise<void> {
+  const language = file.split(".")[0];
+  const base = language === OSD_LANGUAGE ? OSD_TESSDATA_URL : TESSDATA_URL;
+  const url = `${base}/${language}.traineddata`;
+
+  console.log(`⬇️ Downloading ${url}`);
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`${url} responded ${res.status}`);
+
+  const data = Buffer.from(await res.arrayBuffer());
+  await writeFile(
+    path.join(OCR_LANG_PATH, file),
+    OCR_LANG_GZIP ? gzipSync(data) : data
+  );
+}
+
+async function main() {
+  await mkdir(OCR_LANG_PATH, { recursive: true });
+
+  const missing = requiredTraineddata(OCR_LANGUAGES, OCR_LANG_GZIP).filter(
+    (file) => !existsSync(path.join(OCR_LANG_PATH, file))
+  );
+  for (const file of missing) await fetchTraineddata(file);
+
+  console.log(
+    missing.length > 0
+      ? `✅ Saved ${missing.length} traineddata file(s) to ${OCR_LANG_PATH}`
+      : `✅ All traineddata is already in ${OCR_LANG_PATH}`
+  );
+}
+
+main().catch((error) => {
+  console.error("❌ Failed to fetch traineddata:", error);
+  process.exit(1);
+});
@@ -3,9 +3,28 @@ import dotenv from "dotenv";
 dotenv.config(); // Load environment variables from .env file
 
 import app from "./app"; // Import your Express app
+import { ensureSchema } from "./config/schema";
+import { jobQueueService } from "./services/job-queue.service";
+import { checkLanguageData } from "./services/ocr.service";
 
 const PORT = process.env.PORT || 5000; // Use port 5000 as common for backends
 
-app.listen(PORT, () => {
-  console.log(`Backend server running on http://localhost:${PORT}`);
-});
+// OCR reads traineddata from disk, or from the CDN when files are missing
+checkLanguageData();
+
+// Tables must exist before requests or jobs touch them
+ensureSchema()
+  .then(() => {
+    app.listen(PORT, () => {
+      console.log(`Backend server running on http://localhost:${PORT}`);
+
+      // Start workers; this also re-queues jobs orphaned by a crash
+      jobQueueService.start().catch((error) => {
+        console.error("❌ Failed to start job queue:", error);
+      });
+    });
+  })
+  .catch((error) => {
+    console.error("❌ Failed to prepare the database schema:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,183 @@
+// summaid-backend/src/services/admin.service.ts
+import type { User } from "@supabase/supabase-js";
+import { pool } from "../config/database";
+import { auth } from "../config/supabase";
+import { HttpError } from "../utils/error.utils";
+import { authService, isBanned } from "./auth.service";
+import { documentProcessingService } from "./document.service";
+import { sessionService } from "./session.service";
+import type { UserRole } from "../types/request.d";
+
+// Supabase bans last for a duration; suspensions last until lifted
+const SUSPENSION_BAN_DURATION = "876000h"; // 100 years
+
+export interface AdminUserSummary {
+  id: string;
+  email: string | null;
+  role: UserRole | null;
+  createdAt: string;
+  lastSignInAt: string | null;
+  suspended: boolean;
+  suspension: UserSuspension | null;
+}
+
+// Recorded in the user's app_metadata when they are suspended
+export interface UserSuspension {
+  reason: string | null;
+  suspendedBy: string;
+  suspendedAt: string;
+}
+
+type AdminAction = "suspend_user" | "unsuspend_user" | "requeue_session";
+
+function toUserSummary(user: User): AdminUserSummary {
+  const banned = isBanned(user as User & { banned_until?: string });
+  return {
+    id: user.id,
+    email: user.email ?? null,
+    role: (user.app_metadata?.role as UserRole) ?? null,
+    createdAt: user.created_at,
+    lastSignInAt: user.last_sign_in_at ?? null,
+    suspended: banned,
+    suspension: banned ? user.app_metadata?.suspension ?? null : null,
+  };
+}
+
+class AdminService {
+  /**
+   * Records an action taken by an admin in the audit table. The action has
+   * already happened, so a failure is logged rather than thrown.
+   */
+  private async audit(
+    adminId: string,
+    action: AdminAction,
+    targetId: string,
+    details: Record<string, unknown> = {}
+  ): Promise<void> {
+    try {
+      await pool.query(
+        `INSERT INTO admin_actions (admin_id, action, target_id, details)
+         VALUES ($1, $2, $3, $4)`,
+        [adminId, action, targetId, details]
+      );
+    } catch (error) {
+      console.error(
+        `❌ Failed to record ${action} of ${targetId} by ${adminId}:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  async listUsers(
+    page: number,
+    perPage: number
+  ): Promise<{ users: AdminUserSummary[]; total: number }> {
+    const data = await auth.listUsers(page, perPage);
+    return {
+      users: data.users.map(toUserSummary),
+      total: data.total,
+    };
+  }
+
+  /**
+   * Queues a failed session for processing again, on behalf of its owner.
+   * @param options.refresh Re-extracts every file instead of reusing the
+   * cached text, for failures caused by bad extraction.
+   * The owner's quotas are not checked or charged for the run.
+   * @returns The id of the queued job.
+   * @throws HttpError 409 if the session has not failed.
+   */
+  async requeueSession(
+    sessionId: string,
+    adminId: string,
+    { refresh = false }: { refresh?: boolean } = {}
+  ): Promise<string> {
+    const session = await sessionService.getSession(sessionId);
+    if (session.status !== "failed") {
+      throw new HttpError(
+        409,
+        `Only failed sessions can be re-queued; this one is ${session.status}.`
+      );
+    }
+
+    const jobId = await documentProcessingService.queueProcessing(
+      sessionId,
+      session.user_id,
+      { refresh, enforceQuota: false }
+    );
+    await this.audit(adminId, "requeue_session", sessionId, {
+      userId: session.user_id,
+      jobId,
+      refresh,
+    });
+    console.log(`🛡️ ${adminId} re-queued session ${sessionId} (job ${jobId})`);
+    return jobId;
+  }
+
+  /**
+   * Suspends a user: they can no longer sign in, and their existing tokens
+   * are rejected by authenticateToken.
+   */
+  async suspendUser(
+    userId: string,
+    adminId: string,
+    reason: string | null
+  ): Promise<AdminUserSummary> {
+    if (userId === adminId) {
+      throw new HttpError(400, "You cannot suspend your own account.");
+    }
+
+    const { user: current } = await this.getUser(userId);
+    const suspension: UserSuspension = {
+      reason,
+      suspendedBy: adminId,
+      suspendedAt: new Date().toISOString(),
+    };
+    const { user } = await auth.updateUser(userId, {
+      ban_duration: SUSPENSION_BAN_DURATION,
+      app_metadata: { ...current.app_metadata, suspension },
+    });
+    authService.forgetSuspension(userId);
+
+    await this.audit(adminId, "suspend_user", userId, { reason });
+    console.log(`🛡️ ${adminId} suspended user ${userId}`);
+    return toUserSummary(user);
+  }
+
+  /**
+   * Lifts a user's suspension.
+   */
+  async unsuspendUser(
+    userId: string,
+    adminId: string
+  ): Promise<AdminUserSummary> {
+    const { user: current } = await this.getUser(userId);
+    const { user } = await auth.updateUser(userId, {
+      ban_duration: "none",
+      app_metadata: { ...current.app_metadata, suspension: null },
+    });
+    authService.forgetSuspension(userId);
+
+    await this.audit(adminId, "unsuspend_user", userId);
+    console.log(`🛡️ ${adminId} lifted the suspension of user ${userId}`);
+    return toUserSummary(user);
+  }
+
+  /**
+   * @throws HttpError 404 if the user does not exist.
+   */
+  private async getUser(userId: string): Promise<{ user: User }> {
+    try {
+      return await auth.getUser(userId);
+    } catch (error) {
+      // Supabase answers 400 for ids that are not UUIDs
+      const { status } = (error ?? {}) as { status?: number };
+      if (status === 404 || status === 400) {
+        throw new HttpError(404, "User not found.");
+      }
+      throw error;
+    }
+  }
+}
+
+export const adminService = new AdminService();
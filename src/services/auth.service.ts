@@ -1,5 +1,58 @@
-import { SUPABASE_JWT_SECRET } from "../config/env";
-import jwt from "jsonwebtoken";
+import {
+  SUPABASE_JWKS_CACHE_MS,
+  SUPABASE_JWKS_FILE,
+  SUPABASE_JWKS_URL,
+  SUPABASE_JWT_ALGORITHMS,
+  SUPABASE_JWT_AUDIENCE,
+  SUPABASE_JWT_ISSUER,
+  SUPABASE_JWT_SECRET,
+} from "../config/env";
+import { auth } from "../config/supabase";
+import { createPublicKey, type JsonWebKey, type KeyObject } from "crypto";
+import { promises as fs } from "fs";
+import jwt, { type Algorithm } from "jsonwebtoken";
+
+// How long a user's suspension status is cached; a suspension made on
+// another instance takes at most this long to apply
+const SUSPENSION_CACHE_MS = 60 * 1000;
+const MAX_CACHED_SUSPENSIONS = 10000;
+
+// Tokens with an unknown key id trigger a JWKS refetch, at most this often
+const JWKS_MIN_REFRESH_MS = 30 * 1000;
+const JWKS_TIMEOUT_MS = 10 * 1000;
+
+const SYMMETRIC_ALGORITHMS: Algorithm[] = ["HS256", "HS384", "HS512"];
+const ASYMMETRIC_ALGORITHMS: Algorithm[] = [
+  "RS256",
+  "RS384",
+  "RS512",
+  "PS256",
+  "PS384",
+  "PS512",
+  "ES256",
+  "ES384",
+  "ES512",
+];
+
+const ALLOWED_ALGORITHMS = SUPABASE_JWT_ALGORITHMS.filter(
+  (algorithm): algorithm is Algorithm => {
+    const supported = [...SYMMETRIC_ALGORITHMS, ...ASYMMETRIC_ALGORITHMS];
+    if (supported.includes(algorithm as Algorithm)) return true;
+    console.warn(`⚠️ Ignoring unsupported JWT algorithm "${algorithm}"`);
+    return false;
+  }
+);
+
+interface Jwk extends JsonWebKey {
+  kid?: string;
+  alg?: string;
+  use?: string;
+}
+
+interface SigningKey {
+  key: KeyObject;
+  alg?: string;
+}
 
 // Define the expected structure of a decoded Supabase JWT payload
 interface SupabaseDecodedToken {
@@ -25,27 +78,68 @@ interface SupabaseDecodedToken {
   uid?: string;
 }
 
+/**
+ * True while a Supabase user is banned.
+ */
+export function isBanned(user: { banned_until?: string | null }): boolean {
+  return (
+    !!user.banned_until && new Date(user.banned_until).getTime() > Date.now()
+  );
+}
+
 class AuthService {
+  private suspensions = new Map<
+    string,
+    { suspended: boolean; checkedAt: number }
+  >();
+  private suspensionRequests = new Map<string, Promise<boolean>>();
+
+  private signingKeys = new Map<string, SigningKey>();
+  private signingKeysFetchedAt = 0;
+  private signingKeysAttemptedAt = 0;
+  private signingKeysRequest: Promise<void> | null = null;
+
   /**
-   * Verifies a Supabase JWT.
+   * Verifies a Supabase JWT. Tokens signed with the shared secret (HS256)
+   * are checked against SUPABASE_JWT_SECRET; tokens signed with asymmetric
+   * keys are checked against the JWKS key matching their `kid`. The
+   * algorithm, audience and issuer must all match the configuration.
    * @param token The Supabase JWT string from the client.
    * @returns A decoded Supabase JWT payload if valid.
    * @throws An error if the token is invalid or expired.
    */
   async verifySupabaseToken(token: string): Promise<SupabaseDecodedToken> {
-    if (!SUPABASE_JWT_SECRET) {
-      throw new Error(
-        "Supabase JWT secret not configured in environment variables."
-      );
-    }
-
     try {
-      // Verify the token using the JWT secret
-      // jwt.verify automatically handles expiration, signature validity etc.
-      const decoded = jwt.verify(
-        token,
-        SUPABASE_JWT_SECRET
-      ) as SupabaseDecodedToken;
+      const decodedToken = jwt.decode(token, { complete: true });
+      if (!decodedToken) {
+        throw new jwt.JsonWebTokenError("jwt malformed");
+      }
+
+      const { alg, kid } = decodedToken.header;
+      if (!ALLOWED_ALGORITHMS.includes(alg as Algorithm)) {
+        throw new jwt.JsonWebTokenError(`jwt algorithm ${alg} not allowed`);
+      }
+
+      let key: string | KeyObject;
+      if (SYMMETRIC_ALGORITHMS.includes(alg as Algorithm)) {
+        if (!SUPABASE_JWT_SECRET) {
+          throw new Error(
+            "Supabase JWT secret not configured in environment variables."
+          );
+        }
+        key = SUPABASE_JWT_SECRET;
+      } else {
+        if (!kid) throw new jwt.JsonWebTokenError("jwt has no key id");
+        key = await this.getSigningKey(kid, alg);
+      }
+
+      // jwt.verify handles expiration and signature validity; pinning the
+      // algorithm stops a token from choosing how its key is used
+      const decoded = jwt.verify(token, key, {
+        algorithms: [alg as Algorithm],
+        audience: SUPABASE_JWT_AUDIENCE,
+        issuer: SUPABASE_JWT_ISSUER,
+      }) as SupabaseDecodedToken;
 
       decoded.uid = decoded.sub;
 
@@ -62,6 +156,153 @@ class AuthService {
       throw new Error("Failed to verify authentication token.");
     }
   }
+
+  /**
+   * Finds the JWKS public key with the given id. The key set is cached for
+   * SUPABASE_JWKS_CACHE_MS; an unknown id refetches it early, since it
+   * usually means the keys were rotated.
+   */
+  private async getSigningKey(kid: string, alg: string): Promise<KeyObject> {
+    const now = Date.now();
+    const stale =
+      now - this.signingKeysFetchedAt >= SUPABASE_JWKS_CACHE_MS ||
+      !this.signingKeys.has(kid);
+    if (stale && now - this.signingKeysAttemptedAt >= JWKS_MIN_REFRESH_MS) {
+      await this.refreshSigningKeys();
+    }
+
+    const signingKey = this.signingKeys.get(kid);
+    if (!signingKey) {
+      if (this.signingKeysFetchedAt === 0) {
+        throw new Error("Supabase signing keys are unavailable.");
+      }
+      throw new jwt.JsonWebTokenError(`no signing key found for kid ${kid}`);
+    }
+    if (signingKey.alg && signingKey.alg !== alg) {
+      throw new jwt.JsonWebTokenError(`signing key ${kid} is not for ${alg}`);
+    }
+    return signingKey.key;
+  }
+
+  /**
+   * Reloads the signing keys, sharing one request between concurrent
+   * callers. If loading fails the previous keys are kept.
+   */
+  private refreshSigningKeys(): Promise<void> {
+    if (!this.signingKeysRequest) {
+      this.signingKeysAttemptedAt = Date.now();
+      this.signingKeysRequest = this.loadSigningKeys()
+        .then((keys) => {
+          this.signingKeys = keys;
+          this.signingKeysFetchedAt = Date.now();
+          console.log(`🔑 Loaded ${keys.size} Supabase signing key(s)`);
+        })
+        .catch((error) => {
+          console.warn(
+            "⚠️ Could not load Supabase signing keys:",
+            error instanceof Error ? error.message : error
+          );
+        })
+        .finally(() => {
+          this.signingKeysRequest = null;
+        });
+    }
+    return this.signingKeysRequest;
+  }
+
+  private async loadSigningKeys(): Promise<Map<string, SigningKey>> {
+    let body: string;
+    if (SUPABASE_JWKS_FILE) {
+      body = await fs.readFile(SUPABASE_JWKS_FILE, "utf8");
+    } else {
+      const res = await fetch(SUPABASE_JWKS_URL, {
+        signal: AbortSignal.timeout(JWKS_TIMEOUT_MS),
+      });
+      if (!res.ok) {
+        throw new Error(`JWKS request failed with status ${res.status}`);
+      }
+      body = await res.text();
+    }
+
+    const { keys } = JSON.parse(body) as { keys?: Jwk[] };
+    if (!Array.isArray(keys)) {
+      throw new Error('JWKS has no "keys" array');
+    }
+
+    const signingKeys = new Map<string, SigningKey>();
+    for (const jwk of keys) {
+      if (!jwk.kid || (jwk.use && jwk.use !== "sig")) continue;
+      // Symmetric keys have no place in a public key set
+      if (jwk.kty === "oct") continue;
+      try {
+        const { kid, alg, use, ...keyData } = jwk;
+        signingKeys.set(kid, {
+          key: createPublicKey({ key: keyData, format: "jwk" }),
+          alg,
+        });
+      } catch (error) {
+        console.warn(
+          `⚠️ Skipping unusable signing key ${jwk.kid}:`,
+          error instanceof Error ? error.message : error
+        );
+      }
+    }
+    return signingKeys;
+  }
+
+  /**
+   * Checks whether a user is suspended (banned in Supabase Auth), caching
+   * the answer for SUSPENSION_CACHE_MS. Concurrent requests of one user
+   * share a lookup. If Supabase cannot be reached, the last known answer
+   * is used; a user never checked before is let through, since their token
+   * was already verified.
+   */
+  async isSuspended(uid: string): Promise<boolean> {
+    const cached = this.suspensions.get(uid);
+    if (cached && Date.now() - cached.checkedAt < SUSPENSION_CACHE_MS) {
+      return cached.suspended;
+    }
+
+    let request = this.suspensionRequests.get(uid);
+    if (!request) {
+      request = this.lookUpSuspension(uid).finally(() => {
+        this.suspensionRequests.delete(uid);
+      });
+      this.suspensionRequests.set(uid, request);
+    }
+    return request;
+  }
+
+  private async lookUpSuspension(uid: string): Promise<boolean> {
+    try {
+      const { user } = await auth.getUser(uid);
+      const suspended = isBanned(user as { banned_until?: string });
+      if (
+        this.suspensions.size >= MAX_CACHED_SUSPENSIONS &&
+        !this.suspensions.has(uid)
+      ) {
+        this.suspensions.clear();
+      }
+      this.suspensions.set(uid, { suspended, checkedAt: Date.now() });
+      return suspended;
+    } catch (error) {
+      const cached = this.suspensions.get(uid);
+      console.warn(
+        `⚠️ Could not check suspension of user ${uid}, ${
+          cached ? "using the last known status" : "letting them through"
+        }:`,
+        error instanceof Error ? error.message : error
+      );
+      return cached?.suspended ?? false;
+    }
+  }
+
+  /**
+   * Drops a user's cached suspension status, e.g. after suspending them.
+   */
+  forgetSuspension(uid: string): void {
+    this.suspensions.delete(uid);
+  }
 }
 
 export const authService = new AuthService();
@@ -0,0 +1,404 @@
+// summaid-backend/src/services/chat.service.ts
+import type { Document } from "@langchain/core/documents";
+import { OpenAIEmbeddings } from "@langchain/openai";
+import { pool } from "../config/database";
+import { db } from "../config/supabase";
+import { OPENAI_API_KEY } from "../config/env";
+import { estimateTokens } from "../utils/document.utils";
+import { HttpError } from "../utils/error.utils";
+import { fileKey } from "./file-text.service";
+import { llmService } from "./llm.service";
+import { sessionService } from "./session.service";
+import { usageService } from "./usage.service";
+import type {
+  ChatCitation,
+  ChatMessage,
+  CloudinaryFileDetail,
+  LLMProvider,
+} from "../types";
+
+const CHUNKS_TABLE = "document_chunks";
+const INSERT_BATCH_SIZE = 100;
+const HISTORY_TURNS = 6;
+
+interface ScoredChunk {
+  fileName: string;
+  chunkIndex: number;
+  content: string;
+  score: number;
+}
+
+// Embedding APIs do not report usage; estimated like prompts
+function sumTokens(texts: string[]): number {
+  return texts.reduce((sum, text) => sum + estimateTokens(text), 0);
+}
+
+// pgvector parses vectors from their text form, "[0.1,0.2,...]"
+function toVector(embedding: number[]): string {
+  return JSON.stringify(embedding);
+}
+
+class ChatService {
+  // Chunks and questions must share one embedding model, so retrieval stays
+  // on OpenAI whichever provider answers
+  private embeddings = new OpenAIEmbeddings({
+    openAIApiKey: OPENAI_API_KEY,
+    modelName: "text-embedding-ada-002",
+  });
+
+  /**
+   * Embeds a session's chunks and stores them, replacing any previously
+   * indexed chunks for that session. Chunks are expected to carry
+   * `fileName`, `fileKey` and `chunkIndex` in their metadata.
+   * @param onTokens Receives the tokens embedding used.
+   */
+  async indexChunks(
+    sessionId: string,
+    chunks: Document[],
+    onTokens?: (tokens: number) => void
+  ): Promise<void> {
+    const { error: deleteError } = await db
+      .from(CHUNKS_TABLE)
+      .delete()
+      .eq("session_id", sessionId);
+    if (deleteError)
+      throw new Error(`Failed to clear chunks: ${deleteError.message}`);
+
+    await this.insertChunks(sessionId, chunks, onTokens);
+  }
+
+  /**
+   * Re-indexes only the given files, leaving other files' chunks in place.
+   * Files are matched by `fileKey`, since different files may share a name.
+   */
+  async replaceFileChunks(
+    sessionId: string,
+    files: CloudinaryFileDetail[],
+    chunks: Document[],
+    onTokens?: (tokens: number) => void
+  ): Promise<void> {
+    if (files.length > 0) {
+      const { error: deleteError } = await db
+        .from(CHUNKS_TABLE)
+        .delete()
+        .eq("session_id", sessionId)
+        .in("file_key", files.map(fileKey));
+      if (deleteError)
+        throw new Error(`Failed to clear chunks: ${deleteError.message}`);
+
+      // Chunks indexed before keys were stored can only be matched by name
+      const { error: legacyError } = await db
+        .from(CHUNKS_TABLE)
+        .delete()
+        .eq("session_id", sessionId)
+        .is("file_key", null)
+        .in(
+          "file_name",
+          files.map((file) => file.fileName)
+        );
+      if (legacyError)
+        throw new Error(`Failed to clear chunks: ${legacyError.message}`);
+    }
+
+    await this.insertChunks(sessionId, chunks, onTokens);
+  }
+
+  /**
+   * Removes chunks of files that are no longer part of the session.
+   * @returns The number of chunks left indexed for the session.
+   */
+  async pruneChunks(
+    sessionId: string,
+    keepFiles: CloudinaryFileDetail[]
+  ): Promise<number> {
+    // Chunks indexed before keys were stored can only be matched by name.
+    // The count sees the rows as they were before the delete
+    try {
+      const { rows } = await pool.query(
+        `WITH pruned AS (
+           DELETE FROM document_chunks
+           WHERE session_id = $1
+             AND (file_key <> ALL($2::text[])
+               OR (file_key IS NULL AND file_name <> ALL($3::text[])))
+           RETURNING 1
+         )
+         SELECT count(*) - (SELECT count(*) FROM pruned) AS kept
+         FROM document_chunks
+         WHERE session_id = $1`,
+        [
+          sessionId,
+          keepFiles.map(fileKey),
+          keepFiles.map((file) => file.fileName),
+        ]
+      );
+      return Number(rows[0].kept);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : error;
+      throw new Error(`Failed to prune chunks: ${message}`);
+    }
+  }
+
+  private async insertChunks(
+    sessionId: string,
+    chunks: Document[],
+    onTokens?: (tokens: number) => void
+  ): Promise<void> {
+    if (chunks.length === 0) return;
+
+    const contents = chunks.map((chunk) => chunk.pageContent);
+    const vectors = await this.embeddings.embedDocuments(contents);
+    onTokens?.(sumTokens(contents));
+
+    const rows = chunks.map((chunk, i) => ({
+      session_id: sessionId,
+      file_name: chunk.metadata.fileName,
+      file_key: chunk.metadata.fileKey,
+      chunk_index: chunk.metadata.chunkIndex,
+      content: chunk.pageContent,
+      embedding: vectors[i],
+    }));
+
+    for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+      const { error } = await db
+        .from(CHUNKS_TABLE)
+        .insert(rows.slice(i, i + INSERT_BATCH_SIZE));
+      if (error) throw new Error(`Failed to store chunks: ${error.message}`);
+    }
+  }
+
+  /**
+   * Retrieves the chunks most relevant to a question, ranked by cosine
+   * similarity of their embeddings. Ranking runs in the database, so every
+   * chunk of a session is searched without loading the embeddings.
+   * @param onTokens Receives the tokens embedding the question used.
+   */
+  async retrieveRelevantChunks(
+    sessionId: string,
+    question: string,
+    topK: number,
+    onTokens?: (tokens: number) => void
+  ): Promise<ScoredChunk[]> {
+    if (!(await this.hasChunks(sessionId))) return [];
+
+    const queryVector = await this.embeddings.embedQuery(question);
+    onTokens?.(estimateTokens(question));
+
+    // <=> is pgvector's cosine distance
+    const { rows } = await pool.query(
+      `SELECT file_name, chunk_index, content,
+              1 - (embedding <=> $2::vector) AS score
+       FROM document_chunks
+       WHERE session_id = $1
+       ORDER BY embedding <=> $2::vector
+       LIMIT $3`,
+      [sessionId, toVector(queryVector), topK]
+    );
+    return rows.map((row) => ({
+      fileName: row.file_name,
+      chunkIndex: row.chunk_index,
+      content: row.content,
+      score: Number(row.score),
+    }));
+  }
+
+  /**
+   * Finds the chunks each text is most likely based on, e.g. to ground
+   * generated quiz questions in the indexed content. All texts are embedded
+   * in one request and ranked in one query.
+   * @param onTokens Receives the tokens embedding the texts used.
+   * @returns The citations for each text, in input order; empty when the
+   * session has no indexed chunks.
+   */
+  async findSources(
+    sessionId: string,
+    texts: string[],
+    onTokens?: (tokens: number) => void,
+    topK: number = 1
+  ): Promise<ChatCitation[][]> {
+    const sources: ChatCitation[][] = texts.map(() => []);
+    if (texts.length === 0 || !(await this.hasChunks(sessionId))) {
+      return sources;
+    }
+
+    const vectors = await this.embeddings.embedDocuments(texts);
+    onTokens?.(sumTokens(texts));
+
+    const { rows } = await pool.query(
+      `SELECT texts.position, chunk.file_name, chunk.chunk_index
+       FROM unnest($2::text[]) WITH ORDINALITY AS texts(embedding, position)
+       CROSS JOIN LATERAL (
+         SELECT c.file_name, c.chunk_index,
+                c.embedding <=> texts.embedding::vector AS distance
+         FROM document_chunks c
+         WHERE c.session_id = $1
+         ORDER BY distance
+         LIMIT $3
+       ) AS chunk
+       ORDER BY texts.position, chunk.distance`,
+      [sessionId, vectors.map(toVector), topK]
+    );
+    for (const row of rows) {
+      sources[Number(row.position) - 1].push({
+        fileName: row.file_name,
+        chunkIndex: row.chunk_index,
+      });
+    }
+    return sources;
+  }
+
+  private async hasChunks(sessionId: string): Promise<boolean> {
+    const { rows } = await pool.query(
+      `SELECT EXISTS (
+         SELECT 1 FROM document_chunks WHERE session_id = $1
+       ) AS indexed`,
+      [sessionId]
+    );
+    return rows[0].indexed;
+  }
+
+  /**
+   * Answers a question about a processed session using its indexed chunks,
+   * and appends the exchange to the session's chat history.
+   * @throws HttpError 429 if the user has used up their token quota.
+   */
+  async answerQuestion(
+    sessionId: string,
+    userId: string,
+    question: string,
+    options: { topK?: number; provider?: LLMProvider } = {}
+  ): Promise<ChatMessage> {
+    const { topK = 5 } = options;
+
+    const sessionData = await sessionService.getOwnedSession(
+      sessionId,
+      userId
+    );
+
+    if (!sessionData.status?.startsWith("completed")) {
+      throw new HttpError(
+        409,
+        "Session has not finished processing. Try again once it is completed."
+      );
+    }
+
+    await usageService.assertWithinQuotas(userId, ["tokens"]);
+
+    let retrievalTokens = 0;
+    const chunks = await this.retrieveRelevantChunks(
+      sessionId,
+      question,
+      topK,
+      (tokens) => {
+        retrievalTokens += tokens;
+      }
+    );
+    if (chunks.length === 0) {
+      throw new HttpError(
+        409,
+        "No indexed content for this session. Reprocess it to enable chat."
+      );
+    }
+
+    const history = sessionData.chat_history || [];
+    const answer = await this.generateAnswer(
+      question,
+      chunks,
+      history,
+      options.provider || sessionData.preferences?.llmProvider
+    );
+    await usageService.record(userId, {
+      sessionId,
+      source: "chat",
+      tokens: retrievalTokens + answer.tokens,
+    });
+
+    const now = new Date().toISOString();
+    const userMessage: ChatMessage = {
+      role: "user",
+      content: question,
+      created_at: now,
+    };
+    const assistantMessage: ChatMessage = {
+      role: "assistant",
+      content: answer.content,
+      citations: answer.citations,
+      model: answer.model,
+      created_at: new Date().toISOString(),
+    };
+
+    // Appended in the database, so concurrent questions do not overwrite
+    // each other's exchanges
+    try {
+      await pool.query(
+        `UPDATE sessions
+         SET chat_history = COALESCE(chat_history, '[]'::jsonb) || $1::jsonb
+         WHERE id = $2`,
+        [JSON.stringify([userMessage, assistantMessage]), sessionId]
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : error;
+      throw new Error(`Failed to save chat history: ${message}`);
+    }
+
+    return assistantMessage;
+  }
+
+  private async generateAnswer(
+    question: string,
+    chunks: ScoredChunk[],
+    history: ChatMessage[],
+    provider?: LLMProvider
+  ): Promise<{
+    content: string;
+    citations: ChatCitation[];
+    model: string;
+    tokens: number;
+  }> {
+    const sources = chunks
+      .map(
+        (chunk, i) =>
+          `[${i + 1}] (${chunk.fileName}, chunk ${chunk.chunkIndex})\n${
+            chunk.content
+          }`
+      )
+      .join("\n\n");
+
+    const conversation = history
+      .slice(-HISTORY_TURNS * 2)
+      .map((message) => `${message.role}: ${message.content}`)
+      .join("\n");
+
+    const prompt = `You are a study assistant answering questions about a student's notes.
+Answer using only the numbered sources below. Cite the sources you use inline as [n].
+If the sources do not contain the answer, say so.
+
+Sources:
+${sources}
+${conversation ? `\nConversation so far:\n${conversation}\n` : ""}
+Question: ${question}`;
+
+    const res = await llmService.invoke(prompt, {
+      provider,
+      temperature: 0.2,
+    });
+    const content = res.content;
+
+    // Only cite the sources the model actually referenced
+    const cited = new Set<number>();
+    for (const match of content.matchAll(/\[(\d+)\]/g)) {
+      const index = Number(match[1]) - 1;
+      if (index >= 0 && index < chunks.length) cited.add(index);
+    }
+
+    const citations = [...cited]
+      .sort((a, b) => a - b)
+      .map((index) => ({
+        fileName: chunks[index].fileName,
+        chunkIndex: chunks[index].chunkIndex,
+      }));
+
+    return { content, citations, model: res.model, tokens: res.tokens };
+  }
+}
+
+export const chatService = new ChatService();
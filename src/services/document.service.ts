@@ -1,37 +1,542 @@
-import axios from "axios";
-import * as https from "https";
+import type { Document } from "@langchain/core/documents";
 import { db } from "../config/supabase";
+import {
+  EXTRACTION_CONCURRENCY,
+  UPLOAD_MAX_SESSION_BYTES,
+} from "../config/env";
 import { RecursiveCharacterTextSplitter } from "langchain/text_splitter";
-import { OpenAIEmbeddings, ChatOpenAI } from "@langchain/openai";
-import { OPENAI_API_KEY } from "../config/env";
-import type { SessionDocument } from "../types"; // Assume you extract types into this file
-
+import type {
+  CloudinaryFileDetail,
+  DocumentProcessingPreferences,
+  FileOCRMetadata,
+  FileTextRecord,
+  OCRPageMetadata,
+  GeneratedArtifact,
+  GenerationStep,
+  LLMProvider,
+  OCRLanguages,
+  ProcessingUpdate,
+  SessionDocument,
+} from "../types"; // Assume you extract types into this file
+import { chatService } from "./chat.service";
+import { fileKey, fileTextService } from "./file-text.service";
+import { flashcardService } from "./flashcard.service";
+import { jobQueueService } from "./job-queue.service";
+import { progressService } from "./progress.service";
+import { ACTIVE_STATUSES, sessionService } from "./session.service";
+import {
+  countPages,
+  PROCESSING_QUOTAS,
+  usageService,
+  type UsageEstimate,
+} from "./usage.service";
 import {
   downloadFile,
+  estimateGenerationTokens,
+  estimateTokens,
   extractTextFromFile,
   generateContentWithLLM,
+  mapWithConcurrency,
+  type GenerationHooks,
+  type StreamedStep,
 } from "../utils/document.utils";
+import { HttpError } from "../utils/error.utils";
+import {
+  buildFileOcrMetadata,
+  findLowConfidenceSpans,
+  type LowConfidenceSpan,
+  type PageOCRResult,
+} from "../utils/ocr.utils";
+import { MAX_FILES_PER_SESSION } from "../utils/validation.utils";
+
+export const PROCESS_DOCUMENT_JOB = "process_document";
+
+export interface ProcessingOptions {
+  /** Streams the summary and study guide while they are generated */
+  stream?: boolean;
+  /** Overrides the session's preferred LLM provider */
+  provider?: LLMProvider;
+  /** Regenerates only these artifacts; defaults to all enabled ones */
+  artifacts?: GeneratedArtifact[];
+  /** Re-extracts every file except those whose text the user edited */
+  refresh?: boolean;
+}
+
+interface FileProgress {
+  fileIndex: number;
+  fileCount: number;
+  fileName: string;
+}
+
+export interface FileText {
+  fileName: string;
+  text: string;
+  edited: boolean;
+  updatedAt: string;
+}
+
+export interface FileOCRReview {
+  fileName: string;
+  text: string;
+  /** Spans are not flagged once the user has edited the text */
+  edited: boolean;
+  /** Mean word confidence; null when the file did not go through OCR */
+  confidence: number | null;
+  threshold: number;
+  lowConfidenceSpans: LowConfidenceSpan[];
+  pages: OCRPageMetadata[];
+}
+
+interface ProcessDocumentPayload extends ProcessingOptions {
+  sessionId: string;
+  userId: string;
+  /** Absent on jobs queued before runs were checked against quotas */
+  enforceQuota?: boolean;
+}
+
+// Streamed text is forwarded in batches to keep NOTIFY traffic reasonable
+const STREAM_FLUSH_MS = 300;
+const STREAM_FLUSH_CHARS = 2000;
+// Partial text is written to the session at most this often
+const STREAM_PERSIST_MS = 3000;
+
+const ARTIFACT_COLUMNS: Record<GeneratedArtifact, string> = {
+  summary: "summary",
+  flashcards: "flashcards",
+  studyGuide: "study_guide",
+  quiz: "quiz",
+};
+
+const ARTIFACT_PREFERENCES = {
+  summary: "generateSummary",
+  flashcards: "generateFlashcards",
+  studyGuide: "generateStudyGuide",
+  quiz: "generateQuiz",
+} as const;
+
+const GENERATION_STEP_MESSAGES: Record<GenerationStep, string> = {
+  condensing: "Condensing a large document before generation.",
+  summary: "Generating summary.",
+  flashcards: "Generating flashcards.",
+  studyGuide: "Generating study guide.",
+  quiz: "Generating quiz.",
+};
+
+/**
+ * Number of artifacts a run generates: the requested ones, or those
+ * enabled in the preferences.
+ */
+function countArtifacts(
+  preferences: DocumentProcessingPreferences,
+  artifacts?: GeneratedArtifact[]
+): number {
+  if (artifacts) return artifacts.length;
+  return Object.values(ARTIFACT_PREFERENCES).filter((key) => preferences[key])
+    .length;
+}
 
 class DocumentProcessingService {
-  private axiosInstance = axios.create({
-    timeout: 90000,
-    maxContentLength: 100 * 1024 * 1024,
-    maxBodyLength: 100 * 1024 * 1024,
-    httpsAgent: new https.Agent({ rejectUnauthorized: false }),
-  });
-
-  private chatModel = new ChatOpenAI({
-    openAIApiKey: OPENAI_API_KEY,
-    modelName: "gpt-4o",
-    temperature: 0.7,
-  });
-
-  private embeddings = new OpenAIEmbeddings({
-    openAIApiKey: OPENAI_API_KEY,
-    modelName: "text-embedding-ada-002",
-  });
-
-  async initiateProcessing(sessionId: string, userId: string) {
+  /**
+   * Estimates what a processing run will consume from the cached text of
+   * the session's files. Files not extracted yet count as one page; their
+   * text is checked against the quota once extracted.
+   */
+  private async estimateRun(
+    session: SessionDocument,
+    { artifacts, refresh = false }: ProcessingOptions
+  ): Promise<UsageEstimate> {
+    const cachedTexts = await fileTextService.getTexts(session.id);
+    const estimate = { sessions: 1, pages: 0, characters: 0, tokens: 0 };
+    let knownCharacters = 0;
+
+    for (const file of session.files) {
+      const cached = cachedTexts.get(fileKey(file));
+      if (!cached) {
+        estimate.pages += 1;
+        continue;
+      }
+      knownCharacters += cached.text.length;
+      if (refresh && !cached.edited_at) {
+        estimate.characters += cached.text.length;
+        estimate.pages += countPages(cached.text.length);
+      }
+    }
+    estimate.tokens = estimateGenerationTokens(
+      knownCharacters,
+      countArtifacts(session.preferences, artifacts)
+    );
+    return estimate;
+  }
+
+  /**
+   * Verifies session ownership, marks the session as queued and persists a
+   * processing job for the background workers. The run counts towards the
+   * user's daily sessions.
+   * @param options.enforceQuota When false (e.g. staff re-queueing a failed
+   * session), the user's quotas are neither checked nor charged.
+   * @param options.preferences Saved together with the queued status, so
+   * they only change if the run is queued.
+   * @returns The id of the queued job.
+   * @throws HttpError 409 if the session is already queued or processing,
+   * 429 if the user has used up a processing quota.
+   */
+  async queueProcessing(
+    sessionId: string,
+    userId: string,
+    options: ProcessingOptions & {
+      enforceQuota?: boolean;
+      preferences?: DocumentProcessingPreferences;
+    } = {}
+  ): Promise<string> {
+    const { enforceQuota = true, preferences, ...processingOptions } = options;
+    const session = await sessionService.getOwnedSession(sessionId, userId);
+
+    if (enforceQuota) {
+      await usageService.assertWithinQuotas(
+        userId,
+        PROCESSING_QUOTAS,
+        await this.estimateRun(session, processingOptions)
+      );
+    }
+
+    // Conditional, so two concurrent requests cannot both queue a run
+    const { data: queued, error } = await db
+      .from("sessions")
+      .update({
+        status: "queued",
+        error_message: null,
+        ...(preferences && { preferences }),
+      })
+      .eq("id", sessionId)
+      .not("status", "in", `(${ACTIVE_STATUSES.join(",")})`)
+      .select("id");
+    if (error) throw new Error(`Failed to queue session: ${error.message}`);
+    if (!queued || queued.length === 0) {
+      throw new HttpError(409, "Session is already being processed.");
+    }
+
+    const jobId = await jobQueueService.enqueue<ProcessDocumentPayload>(
+      PROCESS_DOCUMENT_JOB,
+      { sessionId, userId, enforceQuota, ...processingOptions }
+    );
+    if (enforceQuota) {
+      await usageService.record(userId, {
+        sessionId,
+        source: "processing",
+        sessions: 1,
+      });
+    }
+    await progressService.publish(sessionId, {
+      stage: "queued",
+      message: "Waiting for a worker to start processing.",
+    });
+    return jobId;
+  }
+
+  /**
+   * Regenerates only the given artifacts of a processed session from its
+   * cached text, optionally with updated preferences (e.g. a new
+   * `flashcardCount`). The artifacts are enabled in the saved preferences.
+   * @returns The id of the queued job.
+   */
+  async regenerateArtifacts(
+    sessionId: string,
+    userId: string,
+    artifacts: GeneratedArtifact[],
+    options: {
+      preferences?: DocumentProcessingPreferences;
+      stream?: boolean;
+      provider?: LLMProvider;
+    } = {}
+  ): Promise<string> {
+    const session = await sessionService.getOwnedSession(sessionId, userId);
+
+    if (!session.status.startsWith("completed")) {
+      throw new HttpError(
+        409,
+        "Session must be processed before its artifacts can be regenerated."
+      );
+    }
+
+    const preferences = { ...(options.preferences || session.preferences) };
+    for (const artifact of artifacts) {
+      preferences[ARTIFACT_PREFERENCES[artifact]] = true;
+    }
+    // Text extracted with other OCR languages must be extracted again; the
+    // cache can be dropped even if queueing fails
+    if (
+      JSON.stringify(preferences.ocrLanguages) !==
+      JSON.stringify(session.preferences.ocrLanguages)
+    ) {
+      await fileTextService.deleteTexts(sessionId, { keepEdited: true });
+    }
+
+    return this.queueProcessing(sessionId, userId, {
+      stream: options.stream,
+      provider: options.provider,
+      artifacts,
+      preferences,
+    });
+  }
+
+  /**
+   * Adds a file to a session. If the session was processed before, the
+   * new file is extracted and indexed and the artifacts are regenerated;
+   * other files reuse their cached text.
+   * @returns The updated session and, when queued, the processing job id.
+   */
+  async addFile(
+    sessionId: string,
+    userId: string,
+    file: CloudinaryFileDetail
+  ): Promise<{ session: SessionDocument; jobId: string | null }> {
+    const current = await sessionService.getOwnedSession(sessionId, userId);
+
+    if (current.files.length >= MAX_FILES_PER_SESSION) {
+      throw new HttpError(
+        409,
+        `A session can hold at most ${MAX_FILES_PER_SESSION} files.`
+      );
+    }
+    if (current.files.some((existing) => fileKey(existing) === fileKey(file))) {
+      throw new HttpError(409, "File is already part of this session.");
+    }
+    const totalBytes = current.files.reduce(
+      (sum, existing) => sum + existing.size,
+      file.size
+    );
+    if (totalBytes > UPLOAD_MAX_SESSION_BYTES) {
+      throw new HttpError(
+        409,
+        `Session upload limit of ${UPLOAD_MAX_SESSION_BYTES} bytes exceeded.`
+      );
+    }
+
+    return this.replaceFiles(current, userId, [...current.files, file]);
+  }
+
+  /**
+   * Removes a file from a session by its index. If the session was
+   * processed before, the file's chunks and cached text are dropped and the
+   * artifacts are regenerated from the remaining files.
+   * @returns The updated session and, when queued, the processing job id.
+   */
+  async removeFile(
+    sessionId: string,
+    userId: string,
+    fileIndex: number
+  ): Promise<{ session: SessionDocument; jobId: string | null }> {
+    const current = await sessionService.getOwnedSession(sessionId, userId);
+
+    if (fileIndex < 0 || fileIndex >= current.files.length) {
+      throw new HttpError(404, "File not found in this session.");
+    }
+    if (current.files.length === 1) {
+      throw new HttpError(409, "A session must keep at least one file.");
+    }
+
+    return this.replaceFiles(
+      current,
+      userId,
+      current.files.filter((_, i) => i !== fileIndex)
+    );
+  }
+
+  /**
+   * Fetches a session file and its cached text.
+   * @throws HttpError 404 for an unknown file, 409 if the file has not been
+   * extracted yet.
+   */
+  private async getExtractedFile(
+    sessionId: string,
+    userId: string,
+    fileIndex: number
+  ): Promise<{
+    session: SessionDocument;
+    file: CloudinaryFileDetail;
+    cached: FileTextRecord;
+  }> {
+    const session = await sessionService.getOwnedSession(sessionId, userId);
+    const file = session.files[fileIndex];
+    if (!file) throw new HttpError(404, "File not found in this session.");
+
+    const cached = await fileTextService.getText(sessionId, file);
+    if (!cached) {
+      throw new HttpError(
+        409,
+        "This file has not been extracted yet. Process the session first."
+      );
+    }
+    return { session, file, cached };
+  }
+
+  /**
+   * Returns a file's extracted text, or the user's corrected version of it.
+   */
+  async getFileText(
+    sessionId: string,
+    userId: string,
+    fileIndex: number
+  ): Promise<FileText> {
+    const { file, cached } = await this.getExtractedFile(
+      sessionId,
+      userId,
+      fileIndex
+    );
+    return {
+      fileName: file.fileName,
+      text: cached.text,
+      edited: Boolean(cached.edited_at),
+      updatedAt: cached.updated_at,
+    };
+  }
+
+  /**
+   * Replaces a file's extracted text with a user-corrected version. The
+   * corrected text is re-indexed for chat and used by all later
+   * generation, and survives re-extraction. Processed sessions are
+   * regenerated unless `regenerate` is false, which lets several files be
+   * corrected before regenerating once.
+   * @returns The saved text and, when queued, the processing job id.
+   */
+  async updateFileText(
+    sessionId: string,
+    userId: string,
+    fileIndex: number,
+    text: string,
+    { regenerate = true }: { regenerate?: boolean } = {}
+  ): Promise<{ file: FileText; jobId: string | null }> {
+    const session = await sessionService.getOwnedSession(sessionId, userId);
+    const file = session.files[fileIndex];
+    if (!file) throw new HttpError(404, "File not found in this session.");
+
+    if (ACTIVE_STATUSES.includes(session.status)) {
+      throw new HttpError(
+        409,
+        "Text cannot be edited while the session is processing."
+      );
+    }
+
+    const record = await fileTextService.saveText(sessionId, file, text, {
+      edited: true,
+    });
+
+    // Sessions that were never processed pick the text up when processed
+    const jobId =
+      regenerate && session.status !== "pending"
+        ? await this.queueProcessing(sessionId, userId)
+        : null;
+
+    return {
+      file: {
+        fileName: file.fileName,
+        text: record.text,
+        edited: true,
+        updatedAt: record.updated_at,
+      },
+      jobId,
+    };
+  }
+
+  /**
+   * Returns a file's extracted text with the words OCR was less confident
+   * about than `threshold` flagged, so they can be reviewed before
+   * generation.
+   */
+  async getFileOcr(
+    sessionId: string,
+    userId: string,
+    fileIndex: number,
+    threshold: number
+  ): Promise<FileOCRReview> {
+    const { session, file, cached } = await this.getExtractedFile(
+      sessionId,
+      userId,
+      fileIndex
+    );
+
+    const ocr =
+      (await fileTextService.getOcrMetadata(sessionId, file)) ??
+      session.ocr_metadata?.[fileKey(file)];
+    const edited = Boolean(cached.edited_at);
+    return {
+      fileName: file.fileName,
+      text: cached.text,
+      edited,
+      confidence: ocr ? ocr.confidence : null,
+      threshold,
+      lowConfidenceSpans:
+        ocr && !edited
+          ? findLowConfidenceSpans(cached.text, ocr, threshold)
+          : [],
+      pages: ocr ? ocr.pages : [],
+    };
+  }
+
+  private async replaceFiles(
+    current: SessionDocument,
+    userId: string,
+    files: CloudinaryFileDetail[]
+  ): Promise<{ session: SessionDocument; jobId: string | null }> {
+    const session = await sessionService.updateSession(current.id, userId, {
+      files,
+    });
+
+    // Sessions that were never processed are processed on request as usual
+    if (current.status === "pending") return { session, jobId: null };
+
+    const jobId = await this.queueProcessing(current.id, userId);
+    return { session: { ...session, status: "queued" }, jobId };
+  }
+
+  /**
+   * Runs the full processing pipeline for a session.
+   * @param options.finalAttempt When false, a failure leaves the session
+   * queued for the job queue to retry instead of marking it failed.
+   * @param options.enforceQuota When true, generation only starts if the
+   * extracted text fits the user's remaining tokens.
+   * @param options.stream Streams the summary and study guide as they are
+   * generated, via progress events and incremental session updates.
+   * @param options.provider Overrides the session's preferred LLM provider.
+   * @param options.artifacts Regenerates only these artifacts, leaving the
+   * others untouched. Defaults to every artifact enabled in the preferences.
+   * @param options.refresh Re-extracts every file instead of reusing the
+   * cached text of files that were extracted before. Text the user edited
+   * is kept.
+   * Freshly extracted pages and characters, and the tokens generation
+   * used, are charged to the user even if processing fails.
+   */
+  async initiateProcessing(
+    sessionId: string,
+    userId: string,
+    options: ProcessingOptions & {
+      finalAttempt?: boolean;
+      enforceQuota?: boolean;
+    } = {}
+  ) {
+    const {
+      finalAttempt = true,
+      enforceQuota = false,
+      stream = false,
+      provider,
+      artifacts,
+      refresh = false,
+    } = options;
+
+    // Publish events in order without making processing wait on each one
+    let published = Promise.resolve();
+    const usage = { pages: 0, characters: 0, tokens: 0 };
+    const addTokens = (tokens: number) => {
+      usage.tokens += tokens;
+    };
+    const report = (event: ProcessingUpdate) => {
+      published = published.then(() =>
+        progressService.publish(sessionId, event)
+      );
+    };
+    // Partial writes of streamed text must land before the final update
+    let streamedWrites = () => Promise.resolve();
+
     try {
       const { data, error } = await db
         .from("sessions")
@@ -53,67 +558,535 @@ class DocumentProcessingService {
         })
         .eq("id", sessionId);
 
+      report({ stage: "started", message: "Processing started." });
+
       let fullText = "";
-      const allChunks = [];
+      // Only freshly extracted or edited files are (re)indexed for chat
+      const freshChunks: Document[] = [];
+      const freshFiles: CloudinaryFileDetail[] = [];
       const errors: string[] = [];
       const successfulFiles: string[] = [];
 
-      for (const file of sessionData.files) {
+      // OCR metadata used to be kept on the session, which is fetched on
+      // nearly every request; it now lives with each file's text
+      if (sessionData.ocr_metadata) {
         try {
-          const buffer = await downloadFile(file);
-          const text = await extractTextFromFile(buffer, file);
-
-          if (text.trim()) {
-            fullText += text + "\n\n";
-            successfulFiles.push(file.fileName);
-            const splitter = new RecursiveCharacterTextSplitter({
-              chunkSize: 1000,
-              chunkOverlap: 200,
-            });
-            const chunks = await splitter.createDocuments([text]);
-            allChunks.push(...chunks);
-          }
+          await fileTextService.backfillOcrMetadata(
+            sessionId,
+            sessionData.ocr_metadata
+          );
+          await db
+            .from("sessions")
+            .update({ ocr_metadata: null })
+            .eq("id", sessionId);
         } catch (err: unknown) {
-          const message = err instanceof Error ? err.message : "Unknown error";
-          errors.push(`Failed to process ${file.fileName}: ${message}`);
+          console.warn(`⚠️ Failed to move OCR metadata of ${sessionId}:`, err);
+        }
+      }
+
+      const fileCount = sessionData.files.length;
+      const cachedTexts = await fileTextService.getTexts(sessionId);
+      // Refreshing re-extracts every file the user has not corrected
+      if (refresh) {
+        for (const [key, record] of cachedTexts) {
+          if (!record.edited_at) cachedTexts.delete(key);
+        }
+      }
+
+      // Files are extracted concurrently; results are assembled in order
+      const fileResults = await mapWithConcurrency(
+        sessionData.files,
+        EXTRACTION_CONCURRENCY,
+        (file, i) =>
+          this.loadFileText(sessionId, userId, file, {
+            cached: cachedTexts.get(fileKey(file)),
+            reindex: refresh,
+            ocrLanguages: sessionData.preferences.ocrLanguages,
+            fileProgress: {
+              fileIndex: i + 1,
+              fileCount,
+              fileName: file.fileName,
+            },
+            report,
+          })
+      );
+
+      for (const [i, result] of fileResults.entries()) {
+        const { fileName } = sessionData.files[i];
+        if ("error" in result) {
+          errors.push(`Failed to process ${fileName}: ${result.error}`);
+          continue;
+        }
+        if (result.fresh) {
+          usage.characters += result.text.length;
+          usage.pages += countPages(
+            result.text.length,
+            result.ocr?.pages.length
+          );
+        }
+        if (result.fresh || result.chunks.length > 0) {
+          freshFiles.push(sessionData.files[i]);
+          freshChunks.push(...result.chunks);
+        }
+        if (result.text.trim()) {
+          // File headers let generation attribute content to its source
+          fullText += `=== ${fileName} ===\n${result.text}\n\n`;
+          successfulFiles.push(fileName);
         }
       }
 
       if (!fullText.trim())
         throw new Error(`No text extracted. Errors: ${errors.join("; ")}`);
 
+      // Text of newly added files is only known once extracted
+      if (enforceQuota) {
+        const indexing = freshChunks.reduce(
+          (sum, chunk) => sum + estimateTokens(chunk.pageContent),
+          0
+        );
+        await usageService.assertWithinQuotas(userId, ["tokens"], {
+          tokens:
+            indexing +
+            estimateGenerationTokens(
+              fullText.length,
+              countArtifacts(sessionData.preferences, artifacts)
+            ),
+        });
+      }
+
+      // Index chunks for chat; a failure here should not block generation
+      report({ stage: "indexing", message: "Indexing content for chat." });
+      let totalChunks = freshChunks.length;
+      try {
+        if (refresh) {
+          await chatService.indexChunks(sessionId, freshChunks, addTokens);
+        } else {
+          await chatService.replaceFileChunks(
+            sessionId,
+            freshFiles,
+            freshChunks,
+            addTokens
+          );
+          totalChunks = await chatService.pruneChunks(
+            sessionId,
+            sessionData.files
+          );
+        }
+        await fileTextService.markIndexed(sessionId, freshFiles);
+      } catch (err: unknown) {
+        const message = err instanceof Error ? err.message : "Unknown error";
+        errors.push(`Failed to index content for chat: ${message}`);
+      }
+
+      try {
+        await fileTextService.pruneTexts(sessionId, sessionData.files);
+      } catch (err: unknown) {
+        console.warn(`⚠️ Failed to prune cached texts for ${sessionId}:`, err);
+      }
+
+      const hooks: GenerationHooks = {
+        onTokens: addTokens,
+        onStep: (step) =>
+          report({
+            stage: "generating",
+            message: GENERATION_STEP_MESSAGES[step],
+            step,
+          }),
+      };
+      if (stream) {
+        const streaming = this.createStreamingHooks(sessionId, report);
+        Object.assign(hooks, streaming.hooks);
+        streamedWrites = streaming.settled;
+      }
+
+      const preferences = { ...sessionData.preferences };
+      if (artifacts) {
+        for (const artifact of Object.keys(ARTIFACT_PREFERENCES)) {
+          const key = artifact as GeneratedArtifact;
+          preferences[ARTIFACT_PREFERENCES[key]] = artifacts.includes(key);
+        }
+      }
+
       const results = await generateContentWithLLM(
         fullText,
-        sessionData.preferences
+        {
+          ...preferences,
+          llmProvider: provider || preferences.llmProvider,
+        },
+        hooks
       );
+      errors.push(...results.errors);
+
+      // Generated cards get ids and review schedules in their own table;
+      // failed generation leaves the existing cards and schedules alone
+      let flashcards = results.flashcards;
+      if (results.models.flashcards) {
+        try {
+          flashcards = await flashcardService.syncSessionCards(
+            sessionId,
+            userId,
+            results.flashcards
+          );
+        } catch (err: unknown) {
+          const message = err instanceof Error ? err.message : "Unknown error";
+          errors.push(`Failed to save flashcards for review: ${message}`);
+        }
+      }
 
+      // Each question cites the indexed chunks closest to the passage it
+      // was written from; a failure leaves the questions uncited
+      let quiz = results.quiz;
+      if (quiz.length > 0) {
+        try {
+          const sources = await chatService.findSources(
+            sessionId,
+            quiz.map(
+              (question) =>
+                question.sourceExcerpt ||
+                `${question.question}\n${question.answer}`
+            ),
+            addTokens
+          );
+          quiz = quiz.map((question, i) => ({
+            ...question,
+            sources: sources[i],
+          }));
+        } catch (err: unknown) {
+          console.warn(`⚠️ Failed to cite quiz sources for ${sessionId}:`, err);
+        }
+      }
+
+      // An artifact whose generation failed is left as it was, as are the
+      // others in a partial regeneration. A full run clears the artifacts
+      // that are no longer enabled
+      const generated: Record<GeneratedArtifact, unknown> = {
+        summary: results.summary,
+        flashcards,
+        studyGuide: results.studyGuide,
+        quiz,
+      };
+      const artifactUpdate: Record<string, unknown> = {};
+      const artifactModels = { ...sessionData.artifact_models };
+      for (const artifact of Object.keys(generated) as GeneratedArtifact[]) {
+        const requested = preferences[ARTIFACT_PREFERENCES[artifact]];
+        if (requested ? !results.models[artifact] : artifacts) continue;
+        artifactUpdate[ARTIFACT_COLUMNS[artifact]] = generated[artifact];
+        artifactModels[artifact] = results.models[artifact];
+      }
+
+      await streamedWrites();
       await db
         .from("sessions")
         .update({
           status: errors.length > 0 ? "completed_with_errors" : "completed",
-          summary: results.summary,
-          flashcards: results.flashcards,
-          study_guide: results.studyGuide,
+          ...artifactUpdate,
+          artifact_models: artifactModels,
           processed_at: new Date().toISOString(),
           total_text_length: fullText.length,
-          total_chunks: allChunks.length,
+          total_chunks: totalChunks,
           successful_files: successfulFiles,
           processing_errors: errors.length ? errors : null,
         })
         .eq("id", sessionId);
+
+      const status = errors.length > 0 ? "completed_with_errors" : "completed";
+      report({ stage: "completed", message: "Processing completed.", status });
+      await published;
     } catch (error) {
       const message = error instanceof Error ? error.message : "Unknown error";
+      // Retrying cannot help a run the user has no quota left for
+      const quotaExceeded =
+        error instanceof HttpError && error.statusCode === 429;
+      const retry = !finalAttempt && !quotaExceeded;
+      const status = retry ? "queued" : "failed";
+      await streamedWrites();
       await db
         .from("sessions")
         .update({
-          status: "failed",
+          status,
           error_message: message,
           processed_at: new Date().toISOString(),
         })
         .eq("id", sessionId);
-      throw error;
+
+      report({
+        stage: status,
+        message: retry ? `Attempt failed, will retry: ${message}` : message,
+        status,
+      });
+      await published;
+      if (!quotaExceeded) throw error;
+    } finally {
+      await usageService.record(userId, {
+        sessionId,
+        source: "processing",
+        ...usage,
+      });
+    }
+  }
+
+  /**
+   * Marks a session's processing as failed when its job was abandoned
+   * without initiateProcessing getting to do so.
+   */
+  async failProcessing(sessionId: string, message: string): Promise<void> {
+    const { error } = await db
+      .from("sessions")
+      .update({
+        status: "failed",
+        error_message: message,
+        processed_at: new Date().toISOString(),
+      })
+      .eq("id", sessionId);
+    if (error) {
+      throw new Error(`Failed to mark session as failed: ${error.message}`);
     }
+    await progressService.publish(sessionId, {
+      stage: "failed",
+      message,
+      status: "failed",
+    });
+  }
+
+  /**
+   * Returns a file's text, from the cache when available and otherwise by
+   * extracting, caching and chunking it. Errors are returned rather than
+   * thrown so one bad file does not stop the others.
+   */
+  private async loadFileText(
+    sessionId: string,
+    userId: string,
+    file: CloudinaryFileDetail,
+    {
+      cached,
+      reindex,
+      ocrLanguages,
+      fileProgress,
+      report,
+    }: {
+      cached?: FileTextRecord;
+      reindex: boolean;
+      ocrLanguages?: OCRLanguages;
+      fileProgress: FileProgress;
+      report: (event: ProcessingUpdate) => void;
+    }
+  ): Promise<
+    | {
+        text: string;
+        fresh: boolean;
+        chunks: Document[];
+        ocr?: FileOCRMetadata | null;
+      }
+    | { error: string }
+  > {
+    const { fileIndex, fileCount } = fileProgress;
+
+    try {
+      if (cached) {
+        report({
+          stage: "extracting",
+          message: `Using previously extracted text for file ${fileIndex} of ${fileCount}.`,
+          ...fileProgress,
+        });
+        // Edited texts, and texts whose indexing failed, are indexed again
+        const chunks =
+          reindex || !cached.indexed_at
+            ? await this.chunkText(cached.text, file)
+            : [];
+        return { text: cached.text, fresh: false, chunks };
+      }
+
+      const { text, ocr } = await this.extractFile(
+        file,
+        userId,
+        fileProgress,
+        report,
+        ocrLanguages
+      );
+      try {
+        await fileTextService.saveText(sessionId, file, text, {
+          ocr: ocr ?? null,
+        });
+      } catch (err: unknown) {
+        console.warn(`⚠️ Failed to cache text of ${file.fileName}:`, err);
+      }
+
+      if (!text.trim()) return { text, fresh: true, chunks: [], ocr };
+
+      report({
+        stage: "chunking",
+        message: `Splitting file ${fileIndex} of ${fileCount} into chunks.`,
+        ...fileProgress,
+      });
+      const chunks = await this.chunkText(text, file);
+      return { text, fresh: true, chunks, ocr };
+    } catch (err: unknown) {
+      return { error: err instanceof Error ? err.message : "Unknown error" };
+    }
+  }
+
+  /**
+   * Splits a file's text into chunks for chat indexing.
+   */
+  private async chunkText(
+    text: string,
+    file: CloudinaryFileDetail
+  ): Promise<Document[]> {
+    const splitter = new RecursiveCharacterTextSplitter({
+      chunkSize: 1000,
+      chunkOverlap: 200,
+    });
+    const chunks = await splitter.createDocuments(
+      [text],
+      [{ fileName: file.fileName, fileKey: fileKey(file) }]
+    );
+    chunks.forEach((chunk, chunkIndex) => {
+      chunk.metadata.chunkIndex = chunkIndex;
+    });
+    return chunks;
+  }
+
+  /**
+   * Downloads a file and extracts its text, reporting progress. Files that
+   * went through OCR also return per-word OCR metadata.
+   */
+  private async extractFile(
+    file: CloudinaryFileDetail,
+    userId: string,
+    fileProgress: FileProgress,
+    report: (event: ProcessingUpdate) => void,
+    ocrLanguages?: OCRLanguages
+  ): Promise<{ text: string; ocr: FileOCRMetadata | null }> {
+    const { fileIndex, fileCount } = fileProgress;
+
+    report({
+      stage: "downloading",
+      message: `Downloading file ${fileIndex} of ${fileCount}.`,
+      ...fileProgress,
+    });
+    const buffer = await downloadFile(file, userId);
+
+    report({
+      stage: "extracting",
+      message: `Extracting text from file ${fileIndex} of ${fileCount}.`,
+      ...fileProgress,
+    });
+    // OCR reports many tiny increments; only forward every 10%
+    let lastOcrProgress = -1;
+    const ocrResults: PageOCRResult[] = [];
+    const text = await extractTextFromFile(buffer, file, {
+      ocrLanguages,
+      onOcrResult: (result, pageNumber) =>
+        ocrResults.push({ result, pageNumber }),
+      onOcrProgress: (progress) => {
+        if (progress < 1 && progress - lastOcrProgress < 0.1) return;
+        lastOcrProgress = progress;
+        report({
+          stage: "ocr",
+          message: `Running OCR on file ${fileIndex} of ${fileCount}.`,
+          progress,
+          ...fileProgress,
+        });
+      },
+    });
+    return { text, ocr: buildFileOcrMetadata(file.fileName, ocrResults) };
+  }
+
+  /**
+   * Builds generation hooks that forward streamed text as batched
+   * "streaming" events and persist the partial text to the session.
+   */
+  private createStreamingHooks(
+    sessionId: string,
+    report: (event: ProcessingUpdate) => void
+  ): {
+    hooks: Pick<GenerationHooks, "onDelta" | "onStepComplete" | "onStepFailed">;
+    /** Resolves once every queued partial write has finished */
+    settled: () => Promise<void>;
+  } {
+    let pending = "";
+    let lastFlush = 0;
+    let lastPersist = 0;
+    let persisted = Promise.resolve();
+    // Writes still queued for a failed step are dropped
+    const failed = new Set<StreamedStep>();
+
+    const flush = (step: StreamedStep) => {
+      if (!pending) return;
+      report({
+        stage: "streaming",
+        message: GENERATION_STEP_MESSAGES[step],
+        step,
+        delta: pending,
+      });
+      pending = "";
+      lastFlush = Date.now();
+    };
+
+    const persist = (step: StreamedStep, text: string) => {
+      lastPersist = Date.now();
+      persisted = persisted.then(async () => {
+        if (failed.has(step)) return;
+        const { error } = await db
+          .from("sessions")
+          .update({ [ARTIFACT_COLUMNS[step]]: text })
+          .eq("id", sessionId);
+        if (error) {
+          console.warn(
+            `⚠️ Failed to persist streamed ${step} for ${sessionId}:`,
+            error.message
+          );
+        }
+      });
+    };
+
+    return {
+      hooks: {
+        onDelta: (step, delta, textSoFar) => {
+          pending += delta;
+          const now = Date.now();
+          if (
+            now - lastFlush >= STREAM_FLUSH_MS ||
+            pending.length >= STREAM_FLUSH_CHARS
+          ) {
+            flush(step);
+          }
+          if (now - lastPersist >= STREAM_PERSIST_MS) {
+            persist(step, textSoFar);
+          }
+        },
+        onStepComplete: (step, text) => {
+          flush(step);
+          persist(step, text);
+        },
+        onStepFailed: (step) => {
+          failed.add(step);
+          pending = "";
+        },
+      },
+      settled: () => persisted,
+    };
   }
 }
 
 export const documentProcessingService = new DocumentProcessingService();
+
+jobQueueService.registerHandler<ProcessDocumentPayload>(
+  PROCESS_DOCUMENT_JOB,
+  async (job) => {
+    await documentProcessingService.initiateProcessing(
+      job.payload.sessionId,
+      job.payload.userId,
+      {
+        finalAttempt: job.attempts >= job.max_attempts,
+        enforceQuota: job.payload.enforceQuota ?? true,
+        stream: job.payload.stream,
+        provider: job.payload.provider,
+        artifacts: job.payload.artifacts,
+        refresh: job.payload.refresh,
+      }
+    );
+  },
+  (job, message) =>
+    documentProcessingService.failProcessing(job.payload.sessionId, message)
+);
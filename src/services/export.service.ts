@@ -0,0 +1,112 @@
+// summaid-backend/src/services/export.service.ts
+import { HttpError } from "../utils/error.utils";
+import { buildAnkiPackage } from "../utils/anki.utils";
+import {
+  flashcardsToCsv,
+  renderMarkdownPdf,
+  sessionToMarkdown,
+} from "../utils/export.utils";
+import { quizService } from "./quiz.service";
+import { sessionService } from "./session.service";
+import type { ExportFormat, SessionDocument } from "../types";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["apkg", "csv", "md", "pdf"];
+
+export interface ExportedFile {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+}
+
+/**
+ * ASCII file name for the session, safe to put in a Content-Disposition
+ * header.
+ */
+function exportFileName(session: SessionDocument, extension: string): string {
+  const slug = (session.title || "")
+    .normalize("NFKD")
+    .replace(/[^\w\s-]/g, "")
+    .trim()
+    .replace(/[\s_-]+/g, "-")
+    .toLowerCase()
+    .slice(0, 80);
+  return `${slug || `session-${session.id.slice(0, 8)}`}.${extension}`;
+}
+
+class ExportService {
+  /**
+   * Exports a session's generated materials:
+   * - `apkg`: the flashcards as an Anki deck
+   * - `csv`: the flashcards as CSV
+   * - `md`: summary, study guide, flashcards and quiz in one document; the
+   *   quiz's answers are included once the user has submitted an attempt
+   * - `pdf`: the study guide, rendered
+   * @throws HttpError 409 if the materials the format needs were not
+   * generated.
+   */
+  async exportSession(
+    sessionId: string,
+    userId: string,
+    format: ExportFormat
+  ): Promise<ExportedFile> {
+    const session = await sessionService.getOwnedSession(sessionId, userId);
+    const title = session.title || "Study session";
+    const cards = session.flashcards || [];
+
+    if ((format === "apkg" || format === "csv") && cards.length === 0) {
+      throw new HttpError(409, "This session has no flashcards to export.");
+    }
+
+    switch (format) {
+      case "apkg":
+        return {
+          fileName: exportFileName(session, "apkg"),
+          contentType: "application/octet-stream",
+          content: await buildAnkiPackage(title, session.id, cards),
+        };
+      case "csv":
+        return {
+          fileName: exportFileName(session, "csv"),
+          contentType: "text/csv; charset=utf-8",
+          content: Buffer.from(flashcardsToCsv(cards)),
+        };
+      case "md":
+        if (
+          !session.summary &&
+          !session.study_guide &&
+          cards.length === 0 &&
+          !session.quiz?.length
+        ) {
+          throw new HttpError(
+            409,
+            "This session has no generated materials to export."
+          );
+        }
+        return {
+          fileName: exportFileName(session, "md"),
+          contentType: "text/markdown; charset=utf-8",
+          content: Buffer.from(
+            sessionToMarkdown(session, {
+              quizAnswers:
+                !!session.quiz?.length &&
+                (await quizService.hasAttempted(session.id, userId)),
+            })
+          ),
+        };
+      case "pdf":
+        if (!session.study_guide) {
+          throw new HttpError(
+            409,
+            "This session has no study guide to export."
+          );
+        }
+        return {
+          fileName: exportFileName(session, "pdf"),
+          contentType: "application/pdf",
+          content: await renderMarkdownPdf(title, session.study_guide),
+        };
+    }
+  }
+}
+
+export const exportService = new ExportService();
@@ -0,0 +1,194 @@
+// summaid-backend/src/services/file-text.service.ts
+import { db } from "../config/supabase";
+import type {
+  CloudinaryFileDetail,
+  FileOCRMetadata,
+  FileTextRecord,
+} from "../types";
+
+const FILE_TEXTS_TABLE = "session_file_texts";
+// Columns of a cached text; the bulky OCR metadata is fetched on its own
+const TEXT_COLUMNS =
+  "session_id, file_key, file_name, text, updated_at, edited_at, indexed_at";
+
+/**
+ * Identifies a file's content independently of its position in the
+ * session, so reordering or removing other files keeps the cache valid.
+ */
+export function fileKey(
+  file: Pick<CloudinaryFileDetail, "publicId" | "cloudStorageUrl">
+): string {
+  return file.publicId || file.cloudStorageUrl;
+}
+
+class FileTextService {
+  /**
+   * Returns the cached extracted text of a session's files, keyed by
+   * `fileKey`.
+   */
+  async getTexts(sessionId: string): Promise<Map<string, FileTextRecord>> {
+    const { data, error } = await db
+      .from(FILE_TEXTS_TABLE)
+      .select(TEXT_COLUMNS)
+      .eq("session_id", sessionId);
+
+    if (error) throw new Error(`Failed to fetch file texts: ${error.message}`);
+
+    const records = (data || []) as unknown as FileTextRecord[];
+    return new Map(records.map((record) => [record.file_key, record]));
+  }
+
+  /**
+   * Returns the cached extracted text of one file, if any.
+   */
+  async getText(
+    sessionId: string,
+    file: CloudinaryFileDetail
+  ): Promise<FileTextRecord | null> {
+    const { data, error } = await db
+      .from(FILE_TEXTS_TABLE)
+      .select(TEXT_COLUMNS)
+      .eq("session_id", sessionId)
+      .eq("file_key", fileKey(file))
+      .maybeSingle();
+
+    if (error) throw new Error(`Failed to fetch file text: ${error.message}`);
+    return (data as unknown as FileTextRecord) || null;
+  }
+
+  /**
+   * Returns the OCR metadata saved with a file's text, if any.
+   */
+  async getOcrMetadata(
+    sessionId: string,
+    file: CloudinaryFileDetail
+  ): Promise<FileOCRMetadata | null> {
+    const { data, error } = await db
+      .from(FILE_TEXTS_TABLE)
+      .select("ocr_metadata")
+      .eq("session_id", sessionId)
+      .eq("file_key", fileKey(file))
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch OCR metadata: ${error.message}`);
+    }
+    const record = data as unknown as Pick<FileTextRecord, "ocr_metadata">;
+    return record?.ocr_metadata ?? null;
+  }
+
+  /**
+   * Saves OCR metadata for files whose text has none, e.g. metadata kept
+   * on the session before it moved here.
+   */
+  async backfillOcrMetadata(
+    sessionId: string,
+    metadata: Record<string, FileOCRMetadata>
+  ): Promise<void> {
+    for (const [key, ocr] of Object.entries(metadata)) {
+      const { error } = await db
+        .from(FILE_TEXTS_TABLE)
+        .update({ ocr_metadata: ocr })
+        .eq("session_id", sessionId)
+        .eq("file_key", key)
+        .is("ocr_metadata", null);
+      if (error) {
+        throw new Error(`Failed to save OCR metadata: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Caches the text of a file, replacing any previous text. The text must
+   * be indexed for chat again afterwards.
+   * @param options.edited Marks the text as corrected by the user, which
+   * keeps it when the session is re-extracted.
+   * @param options.ocr OCR metadata of freshly extracted text; when omitted
+   * the saved metadata is kept.
+   */
+  async saveText(
+    sessionId: string,
+    file: CloudinaryFileDetail,
+    text: string,
+    {
+      edited = false,
+      ocr,
+    }: { edited?: boolean; ocr?: FileOCRMetadata | null } = {}
+  ): Promise<FileTextRecord> {
+    const now = new Date().toISOString();
+    const record: FileTextRecord = {
+      session_id: sessionId,
+      file_key: fileKey(file),
+      file_name: file.fileName,
+      text,
+      updated_at: now,
+      edited_at: edited ? now : null,
+      indexed_at: null,
+    };
+
+    const { error } = await db
+      .from(FILE_TEXTS_TABLE)
+      .upsert(
+        { ...record, ...(ocr !== undefined && { ocr_metadata: ocr }) },
+        { onConflict: "session_id,file_key" }
+      );
+    if (error) throw new Error(`Failed to save file text: ${error.message}`);
+    return record;
+  }
+
+  /**
+   * Records that the current text of these files is indexed for chat.
+   */
+  async markIndexed(
+    sessionId: string,
+    files: CloudinaryFileDetail[]
+  ): Promise<void> {
+    if (files.length === 0) return;
+
+    const { error } = await db
+      .from(FILE_TEXTS_TABLE)
+      .update({ indexed_at: new Date().toISOString() })
+      .eq("session_id", sessionId)
+      .in("file_key", files.map(fileKey));
+    if (error) {
+      throw new Error(`Failed to mark file texts indexed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Drops cached text for files that are no longer part of the session.
+   */
+  async pruneTexts(
+    sessionId: string,
+    files: CloudinaryFileDetail[]
+  ): Promise<void> {
+    const keep = new Set(files.map(fileKey));
+    const cached = await this.getTexts(sessionId);
+    const stale = [...cached.keys()].filter((key) => !keep.has(key));
+    if (stale.length === 0) return;
+
+    const { error } = await db
+      .from(FILE_TEXTS_TABLE)
+      .delete()
+      .eq("session_id", sessionId)
+      .in("file_key", stale);
+    if (error) throw new Error(`Failed to prune file texts: ${error.message}`);
+  }
+
+  /**
+   * Deletes a session's cached texts.
+   * @param options.keepEdited Keeps texts corrected by the user.
+   */
+  async deleteTexts(
+    sessionId: string,
+    { keepEdited = false }: { keepEdited?: boolean } = {}
+  ): Promise<void> {
+    let query = db.from(FILE_TEXTS_TABLE).delete().eq("session_id", sessionId);
+    if (keepEdited) query = query.is("edited_at", null);
+
+    const { error } = await query;
+    if (error) throw new Error(`Failed to delete file texts: ${error.message}`);
+  }
+}
+
+export const fileTextService = new FileTextService();
@@ -0,0 +1,260 @@
+// summaid-backend/src/services/flashcard.service.ts
+import { randomUUID } from "crypto";
+import { db } from "../config/supabase";
+import { HttpError } from "../utils/error.utils";
+import { initialReviewState, scheduleReview } from "../utils/srs.utils";
+import type {
+  Flashcard,
+  FlashcardRecord,
+  FlashcardReviewState,
+  SessionDocument,
+} from "../types";
+
+const FLASHCARDS_TABLE = "flashcards";
+
+// Statuses of sessions whose saved deck is final
+const SETTLED_STATUSES = ["completed", "completed_with_errors"];
+
+export interface DueCardOptions {
+  limit: number;
+  sessionId?: string;
+}
+
+export interface DueCard extends FlashcardRecord {
+  session_title: string | null;
+}
+
+// Regenerated cards with the same question keep their review history
+function normalizeQuestion(question: string): string {
+  return question.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function reviewState(record: FlashcardRecord): FlashcardReviewState {
+  const {
+    ease_factor,
+    interval_days,
+    repetitions,
+    lapses,
+    due_at,
+    last_reviewed_at,
+  } = record;
+  return {
+    ease_factor,
+    interval_days,
+    repetitions,
+    lapses,
+    due_at,
+    last_reviewed_at,
+  };
+}
+
+class FlashcardService {
+  private backfilledUsers = new Set<string>();
+
+  async getSessionCards(sessionId: string): Promise<FlashcardRecord[]> {
+    const { data, error } = await db
+      .from(FLASHCARDS_TABLE)
+      .select("*")
+      .eq("session_id", sessionId)
+      .order("position", { ascending: true });
+
+    if (error) throw new Error(`Failed to fetch flashcards: ${error.message}`);
+    return (data || []) as unknown as FlashcardRecord[];
+  }
+
+  /**
+   * Replaces a session's review records with a newly generated deck. Cards
+   * whose question matches an existing card keep its id and schedule;
+   * cards no longer in the deck are deleted.
+   * @returns The deck with each card's record id set.
+   */
+  async syncSessionCards(
+    sessionId: string,
+    userId: string,
+    cards: Flashcard[]
+  ): Promise<Flashcard[]> {
+    // Several cards can share a question; each match claims one record
+    const fetched = await this.getSessionCards(sessionId);
+    const existing = new Map<string, FlashcardRecord[]>();
+    for (const record of fetched) {
+      const key = normalizeQuestion(record.question);
+      existing.set(key, [...(existing.get(key) || []), record]);
+    }
+
+    const now = new Date();
+    const records = cards.map((card, position) => {
+      const match = existing.get(normalizeQuestion(card.question))?.shift();
+
+      return {
+        ...(match ? reviewState(match) : initialReviewState(now)),
+        id: match?.id ?? randomUUID(),
+        session_id: sessionId,
+        user_id: userId,
+        position,
+        question: card.question,
+        answer: card.answer,
+        difficulty: card.difficulty ?? null,
+        tags: card.tags ?? null,
+        source_file: card.sourceFile ?? null,
+      } satisfies FlashcardRecord;
+    });
+
+    if (records.length > 0) {
+      const { error } = await db
+        .from(FLASHCARDS_TABLE)
+        .upsert(records, { onConflict: "id" });
+      if (error) throw new Error(`Failed to save flashcards: ${error.message}`);
+    }
+
+    const kept = new Set(records.map((record) => record.id));
+    const stale = fetched
+      .map((record) => record.id)
+      .filter((id) => !kept.has(id));
+    if (stale.length > 0) {
+      const { error } = await db
+        .from(FLASHCARDS_TABLE)
+        .delete()
+        .in("id", stale);
+      if (error) {
+        throw new Error(`Failed to delete old flashcards: ${error.message}`);
+      }
+    }
+
+    return cards.map((card, i) => ({ ...card, id: records[i].id }));
+  }
+
+  /**
+   * Records a review of a card and schedules its next due date.
+   * @param grade Recall quality from 0 (forgot) to 5 (perfect).
+   * @throws HttpError 404 if the card does not exist, 403 if not owned.
+   */
+  async reviewCard(
+    cardId: string,
+    userId: string,
+    grade: number
+  ): Promise<FlashcardRecord> {
+    const { data, error } = await db
+      .from(FLASHCARDS_TABLE)
+      .select("*")
+      .eq("id", cardId)
+      .maybeSingle();
+
+    if (error || !data) throw new HttpError(404, "Flashcard not found.");
+    const card = data as unknown as FlashcardRecord;
+    if (card.user_id !== userId) throw new HttpError(403, "Unauthorized");
+
+    const { data: updated, error: updateError } = await db
+      .from(FLASHCARDS_TABLE)
+      .update({ ...scheduleReview(reviewState(card), grade) })
+      .eq("id", cardId)
+      .select("*")
+      .single();
+
+    if (updateError || !updated) {
+      throw new Error(`Failed to save review: ${updateError?.message}`);
+    }
+    return updated as unknown as FlashcardRecord;
+  }
+
+  /**
+   * Saves review records for a user's decks generated before cards were
+   * stored for review, and writes the record ids back into the sessions.
+   * Runs once per user per process; a failure is retried on the next call.
+   */
+  private async backfillUserCards(userId: string): Promise<void> {
+    if (this.backfilledUsers.has(userId)) return;
+
+    const { data, error } = await db
+      .from("sessions")
+      .select("id, flashcards")
+      .eq("user_id", userId)
+      .in("status", SETTLED_STATUSES)
+      .not("flashcards", "is", null);
+    if (error) throw new Error(`Failed to fetch sessions: ${error.message}`);
+
+    const sessions = (data || []) as unknown as Pick<
+      SessionDocument,
+      "id" | "flashcards"
+    >[];
+    for (const session of sessions) {
+      const cards = session.flashcards || [];
+      if (cards.length === 0 || cards.every((card) => card.id)) continue;
+
+      const synced = await this.syncSessionCards(session.id, userId, cards);
+      // Sessions re-queued meanwhile save their own deck when they finish
+      const { error: updateError } = await db
+        .from("sessions")
+        .update({ flashcards: synced })
+        .eq("id", session.id)
+        .in("status", SETTLED_STATUSES);
+      if (updateError) {
+        throw new Error(`Failed to save flashcard ids: ${updateError.message}`);
+      }
+    }
+    this.backfilledUsers.add(userId);
+  }
+
+  /**
+   * Lists a user's cards that are due for review across all sessions,
+   * most overdue first.
+   */
+  async getDueCards(
+    userId: string,
+    { limit, sessionId }: DueCardOptions
+  ): Promise<{ cards: DueCard[]; total: number }> {
+    await this.backfillUserCards(userId);
+
+    let query = db
+      .from(FLASHCARDS_TABLE)
+      .select("*", { count: "exact" })
+      .eq("user_id", userId)
+      .lte("due_at", new Date().toISOString());
+
+    if (sessionId) query = query.eq("session_id", sessionId);
+
+    const { data, error, count } = await query
+      .order("due_at", { ascending: true })
+      .order("position", { ascending: true })
+      .limit(limit);
+
+    if (error) throw new Error(`Failed to fetch due cards: ${error.message}`);
+    const records = (data || []) as unknown as FlashcardRecord[];
+
+    // Session titles let clients group a mixed review queue by deck
+    const sessionIds = [...new Set(records.map((card) => card.session_id))];
+    const titles = new Map<string, string | null>();
+    if (sessionIds.length > 0) {
+      const { data: sessions, error: sessionsError } = await db
+        .from("sessions")
+        .select("id, title")
+        .in("id", sessionIds);
+      if (sessionsError) {
+        throw new Error(`Failed to fetch sessions: ${sessionsError.message}`);
+      }
+      for (const session of (sessions || []) as unknown as Pick<
+        SessionDocument,
+        "id" | "title"
+      >[]) {
+        titles.set(session.id, session.title ?? null);
+      }
+    }
+
+    return {
+      cards: records.map((card) => ({
+        ...card,
+        session_title: titles.get(card.session_id) ?? null,
+      })),
+      total: count ?? 0,
+    };
+  }
+
+  async deleteSessionCards(sessionId: string): Promise<void> {
+    const { error } = await db
+      .from(FLASHCARDS_TABLE)
+      .delete()
+      .eq("session_id", sessionId);
+    if (error) throw new Error(`Failed to delete flashcards: ${error.message}`);
+  }
+}
+
+export const flashcardService = new FlashcardService();
@@ -0,0 +1,284 @@
+// summaid-backend/src/services/job-queue.service.ts
+import { randomUUID } from "crypto";
+import { pool } from "../config/database";
+import {
+  JOB_CONCURRENCY,
+  JOB_MAX_ATTEMPTS,
+  JOB_VISIBILITY_TIMEOUT_MS,
+} from "../config/env";
+
+const POLL_INTERVAL_MS = 2000;
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 30 * 60 * 1000;
+
+export type JobStatus = "queued" | "running" | "completed" | "failed";
+
+export interface Job<T = unknown> {
+  id: string;
+  type: string;
+  payload: T;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: Date;
+  locked_until: Date | null;
+  locked_by: string | null;
+  last_error: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type JobHandler<T = unknown> = (job: Job<T>) => Promise<void>;
+
+/**
+ * Called when a job fails for good without its handler finishing, e.g.
+ * because the process crashed during its final attempt, so the work can
+ * be marked as failed.
+ */
+export type AbandonedJobHandler<T = unknown> = (
+  job: Job<T>,
+  message: string
+) => Promise<void>;
+
+const ABANDONED_JOB_MESSAGE =
+  "Processing stopped unexpectedly on the final attempt.";
+
+class JobQueueService {
+  private workerId = randomUUID();
+  private handlers = new Map<string, JobHandler>();
+  private abandonedHandlers = new Map<string, AbandonedJobHandler>();
+  private activeJobs = 0;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private running = false;
+  private polling = false;
+
+  /**
+   * Registers the handler that runs jobs of the given type, and optionally
+   * one for jobs abandoned on their final attempt.
+   */
+  registerHandler<T>(
+    type: string,
+    handler: JobHandler<T>,
+    onAbandoned?: AbandonedJobHandler<T>
+  ): void {
+    this.handlers.set(type, handler as JobHandler);
+    if (onAbandoned) {
+      this.abandonedHandlers.set(type, onAbandoned as AbandonedJobHandler);
+    }
+  }
+
+  /**
+   * Persists a job so it survives restarts until a worker completes it.
+   * @returns The id of the queued job.
+   */
+  async enqueue<T>(
+    type: string,
+    payload: T,
+    maxAttempts: number = JOB_MAX_ATTEMPTS
+  ): Promise<string> {
+    const { rows } = await pool.query(
+      `INSERT INTO processing_jobs (type, payload, max_attempts)
+       VALUES ($1, $2, $3) RETURNING id`,
+      [type, JSON.stringify(payload), maxAttempts]
+    );
+    this.poll();
+    return String(rows[0].id);
+  }
+
+  /**
+   * Recovers orphaned jobs and starts polling for work.
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+
+    // Jobs whose lock expired belonged to a worker that crashed or
+    // restarted; those out of attempts fail instead of retrying forever
+    await this.failAbandonedJobs();
+    const { rowCount } = await pool.query(
+      `UPDATE processing_jobs
+       SET status = 'queued', locked_until = NULL, locked_by = NULL,
+           updated_at = now()
+       WHERE status = 'running' AND locked_until < now()`
+    );
+    if (rowCount) console.log(`♻️ Recovered ${rowCount} orphaned job(s)`);
+
+    this.running = true;
+    console.log(
+      `👷 Job queue started (worker ${this.workerId}, concurrency ${JOB_CONCURRENCY})`
+    );
+    this.poll();
+  }
+
+  /**
+   * Stops claiming new jobs. Jobs in flight are left to finish; if the
+   * process exits first, their locks expire and another worker retries them.
+   */
+  stop(): void {
+    this.running = false;
+    if (this.pollTimer) clearTimeout(this.pollTimer);
+    this.pollTimer = null;
+  }
+
+  private poll(): void {
+    if (!this.running || this.polling) return;
+    if (this.pollTimer) clearTimeout(this.pollTimer);
+    this.pollTimer = null;
+    this.polling = true;
+
+    this.fillSlots()
+      .catch((error) => console.error("❌ Job queue poll failed:", error))
+      .finally(() => {
+        this.polling = false;
+        if (this.running && !this.pollTimer) {
+          this.pollTimer = setTimeout(() => this.poll(), POLL_INTERVAL_MS);
+        }
+      });
+  }
+
+  private async fillSlots(): Promise<void> {
+    await this.failAbandonedJobs();
+    while (this.running && this.activeJobs < JOB_CONCURRENCY) {
+      const job = await this.claimNext();
+      if (!job) return;
+
+      this.activeJobs++;
+      this.runJob(job).finally(() => {
+        this.activeJobs--;
+        this.poll();
+      });
+    }
+  }
+
+  /**
+   * Fails running jobs whose lock expired on their final attempt. A job
+   * that crashes the process would otherwise be reclaimed forever.
+   */
+  private async failAbandonedJobs(): Promise<void> {
+    const { rows } = await pool.query(
+      `UPDATE processing_jobs
+       SET status = 'failed', last_error = $1, locked_until = NULL,
+           locked_by = NULL, updated_at = now()
+       WHERE status = 'running' AND locked_until < now()
+         AND attempts >= max_attempts
+       RETURNING *`,
+      [ABANDONED_JOB_MESSAGE]
+    );
+
+    for (const row of rows) {
+      const job: Job = { ...row, id: String(row.id) };
+      console.error(`💥 Job ${job.id} abandoned on its final attempt`);
+      const onAbandoned = this.abandonedHandlers.get(job.type);
+      try {
+        await onAbandoned?.(job, ABANDONED_JOB_MESSAGE);
+      } catch (error) {
+        console.error(`❌ Failed to clean up job ${job.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Atomically claims the next due job, including running jobs whose
+   * visibility timeout expired and that have attempts left.
+   */
+  private async claimNext(): Promise<Job | null> {
+    const { rows } = await pool.query(
+      `UPDATE processing_jobs
+       SET status = 'running', attempts = attempts + 1,
+           locked_until = now() + ($1 || ' milliseconds')::interval,
+           locked_by = $2, updated_at = now()
+       WHERE id = (
+         SELECT id FROM processing_jobs
+         WHERE type = ANY($3)
+           AND ((status = 'queued' AND run_at <= now())
+             OR (status = 'running' AND locked_until < now()
+               AND attempts < max_attempts))
+         ORDER BY run_at
+         FOR UPDATE SKIP LOCKED
+         LIMIT 1
+       )
+       RETURNING *`,
+      [
+        String(JOB_VISIBILITY_TIMEOUT_MS),
+        this.workerId,
+        [...this.handlers.keys()],
+      ]
+    );
+    return rows[0] ? { ...rows[0], id: String(rows[0].id) } : null;
+  }
+
+  private async runJob(job: Job): Promise<void> {
+    const handler = this.handlers.get(job.type)!;
+
+    // Keep extending the lock while the handler runs so long jobs are not
+    // mistaken for orphans
+    const heartbeat = setInterval(() => {
+      pool
+        .query(
+          `UPDATE processing_jobs
+           SET locked_until = now() + ($1 || ' milliseconds')::interval
+           WHERE id = $2 AND locked_by = $3`,
+          [String(JOB_VISIBILITY_TIMEOUT_MS), job.id, this.workerId]
+        )
+        .catch((error) =>
+          console.warn(`⚠️ Heartbeat failed for job ${job.id}:`, error)
+        );
+    }, JOB_VISIBILITY_TIMEOUT_MS / 3);
+
+    try {
+      console.log(
+        `▶️ Running job ${job.id} (${job.type}), attempt ${job.attempts}/${job.max_attempts}`
+      );
+      await handler(job);
+      // A worker whose lock expired must not overwrite the new owner's result
+      const { rowCount } = await pool.query(
+        `UPDATE processing_jobs
+         SET status = 'completed', locked_until = NULL, locked_by = NULL,
+             last_error = NULL, updated_at = now()
+         WHERE id = $1 AND locked_by = $2`,
+        [job.id, this.workerId]
+      );
+      if (rowCount) {
+        console.log(`✅ Job ${job.id} completed`);
+      } else {
+        console.warn(`⚠️ Job ${job.id} completed after losing its lock`);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      const exhausted = job.attempts >= job.max_attempts;
+      const backoff = Math.min(
+        BASE_BACKOFF_MS * 2 ** (job.attempts - 1),
+        MAX_BACKOFF_MS
+      );
+
+      await pool
+        .query(
+          `UPDATE processing_jobs
+           SET status = $2, last_error = $3, locked_until = NULL,
+               locked_by = NULL,
+               run_at = now() + ($4 || ' milliseconds')::interval,
+               updated_at = now()
+           WHERE id = $1 AND locked_by = $5`,
+          [
+            job.id,
+            exhausted ? "failed" : "queued",
+            message,
+            String(backoff),
+            this.workerId,
+          ]
+        )
+        .catch((updateError) =>
+          console.error(`❌ Failed to record job ${job.id} error:`, updateError)
+        );
+
+      console.error(
+        exhausted
+          ? `💥 Job ${job.id} failed permanently: ${message}`
+          : `🔄 Job ${job.id} failed, retrying in ${backoff / 1000}s: ${message}`
+      );
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+}
+
+export const jobQueueService = new JobQueueService();
@@ -0,0 +1,238 @@
+// summaid-backend/src/services/llm.service.ts
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import type { MessageContent } from "@langchain/core/messages";
+import { ChatOpenAI } from "@langchain/openai";
+import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
+import {
+  GEMINI_API_KEY,
+  GEMINI_MODEL,
+  LLM_FALLBACK_ENABLED,
+  LLM_PROVIDER,
+  OPENAI_API_KEY,
+  OPENAI_MODEL,
+} from "../config/env";
+import type { LLMProvider } from "../types";
+
+export const LLM_PROVIDERS: LLMProvider[] = ["openai", "gemini"];
+
+export interface LLMRequestOptions {
+  /** Preferred provider; defaults to LLM_PROVIDER */
+  provider?: LLMProvider;
+  temperature?: number;
+  /** Ask the model to respond with a JSON object */
+  json?: boolean;
+}
+
+export interface LLMResponse {
+  content: string;
+  /** "<provider>:<model>" that produced the response */
+  model: string;
+  /** Prompt and response tokens, as reported by the provider or estimated */
+  tokens: number;
+}
+
+const DEFAULT_TEMPERATURE = 0.7;
+
+/**
+ * True for failures worth retrying on another provider: rate limits,
+ * quota exhaustion, server errors and network problems.
+ */
+function isFallbackError(error: unknown): boolean {
+  const { status, response } = (error ?? {}) as {
+    status?: number;
+    response?: { status?: number };
+  };
+  const code = status ?? response?.status;
+  if (code === 429 || (typeof code === "number" && code >= 500)) return true;
+
+  const message = error instanceof Error ? error.message.toLowerCase() : "";
+  return [
+    "rate limit",
+    "quota",
+    "overloaded",
+    "unavailable",
+    "timeout",
+    "timed out",
+    "econnreset",
+    "econnrefused",
+    "fetch failed",
+    "network",
+  ].some((hint) => message.includes(hint));
+}
+
+function contentToText(content: MessageContent): string {
+  if (typeof content === "string") return content;
+  return content
+    .map((part) =>
+      "text" in part && typeof part.text === "string" ? part.text : ""
+    )
+    .join("");
+}
+
+/**
+ * Tokens a call used, from the provider's usage metadata when it reports
+ * it and otherwise estimated at ~4 characters per token.
+ */
+function countTokens(
+  prompt: string,
+  content: string,
+  reported?: number
+): number {
+  if (reported) return reported;
+  return Math.ceil((prompt.length + content.length) / 4);
+}
+
+class LLMService {
+  private models = new Map<string, BaseChatModel>();
+
+  private isConfigured(provider: LLMProvider): boolean {
+    return provider === "openai" ? !!OPENAI_API_KEY : !!GEMINI_API_KEY;
+  }
+
+  private modelName(provider: LLMProvider): string {
+    return provider === "openai" ? OPENAI_MODEL : GEMINI_MODEL;
+  }
+
+  private getModel(
+    provider: LLMProvider,
+    temperature: number,
+    json: boolean
+  ): BaseChatModel {
+    const key = `${provider}:${temperature}:${json}`;
+    let model = this.models.get(key);
+
+    if (!model) {
+      // Keep client retries low so outages fall back to the other provider
+      // quickly instead of backing off for minutes
+      model =
+        provider === "openai"
+          ? new ChatOpenAI({
+              openAIApiKey: OPENAI_API_KEY,
+              modelName: OPENAI_MODEL,
+              temperature,
+              maxRetries: 2,
+              ...(json && {
+                modelKwargs: { response_format: { type: "json_object" } },
+              }),
+            })
+          : new ChatGoogleGenerativeAI({
+              apiKey: GEMINI_API_KEY,
+              model: GEMINI_MODEL,
+              temperature,
+              maxRetries: 2,
+              json,
+            });
+      this.models.set(key, model);
+    }
+    return model;
+  }
+
+  /**
+   * Providers to try, in order: the preferred one first, then the other
+   * when fallback is enabled. Providers without an API key are skipped.
+   */
+  private providerOrder(preferred?: LLMProvider): LLMProvider[] {
+    const primary =
+      preferred ||
+      (LLM_PROVIDERS.includes(LLM_PROVIDER as LLMProvider)
+        ? (LLM_PROVIDER as LLMProvider)
+        : "openai");
+    const order = LLM_FALLBACK_ENABLED
+      ? [primary, ...LLM_PROVIDERS.filter((p) => p !== primary)]
+      : [primary];
+
+    const configured = order.filter((p) => this.isConfigured(p));
+    if (configured.length === 0) {
+      throw new Error(`No API key configured for LLM provider: ${primary}`);
+    }
+    return configured;
+  }
+
+  /**
+   * Runs a prompt on the preferred provider, falling back to the other
+   * provider on rate limits or outages.
+   */
+  async invoke(
+    prompt: string,
+    options: LLMRequestOptions = {}
+  ): Promise<LLMResponse> {
+    const { temperature = DEFAULT_TEMPERATURE, json = false } = options;
+    const providers = this.providerOrder(options.provider);
+
+    for (let i = 0; i < providers.length; i++) {
+      const provider = providers[i];
+      try {
+        const res = await this.getModel(provider, temperature, json).invoke(
+          prompt
+        );
+        const content = contentToText(res.content);
+        return {
+          content,
+          model: `${provider}:${this.modelName(provider)}`,
+          tokens: countTokens(
+            prompt,
+            content,
+            res.usage_metadata?.total_tokens
+          ),
+        };
+      } catch (error) {
+        if (i === providers.length - 1 || !isFallbackError(error)) throw error;
+        console.warn(
+          `⚠️ ${provider} unavailable, falling back to ${providers[i + 1]}:`,
+          error instanceof Error ? error.message : error
+        );
+      }
+    }
+    throw new Error("No LLM provider available.");
+  }
+
+  /**
+   * Streams a prompt's response through `onDelta`. Falls back to the other
+   * provider only if the failure happens before any text was streamed.
+   */
+  async stream(
+    prompt: string,
+    onDelta: (delta: string) => void,
+    options: LLMRequestOptions = {}
+  ): Promise<LLMResponse> {
+    const { temperature = DEFAULT_TEMPERATURE, json = false } = options;
+    const providers = this.providerOrder(options.provider);
+
+    for (let i = 0; i < providers.length; i++) {
+      const provider = providers[i];
+      let content = "";
+      let reportedTokens = 0;
+      try {
+        const model = this.getModel(provider, temperature, json);
+        for await (const chunk of await model.stream(prompt)) {
+          // Providers report usage on some chunks only, as increments
+          reportedTokens += chunk.usage_metadata?.total_tokens ?? 0;
+          const delta = contentToText(chunk.content);
+          if (!delta) continue;
+          content += delta;
+          onDelta(delta);
+        }
+        return {
+          content,
+          model: `${provider}:${this.modelName(provider)}`,
+          tokens: countTokens(prompt, content, reportedTokens),
+        };
+      } catch (error) {
+        if (
+          content ||
+          i === providers.length - 1 ||
+          !isFallbackError(error)
+        ) {
+          throw error;
+        }
+        console.warn(
+          `⚠️ ${provider} unavailable, falling back to ${providers[i + 1]}:`,
+          error instanceof Error ? error.message : error
+        );
+      }
+    }
+    throw new Error("No LLM provider available.");
+  }
+}
+
+export const llmService = new LLMService();
@@ -1,96 +1,618 @@
 // summaid-backend/src/services/ocr.service.ts
-import { createWorker, PSM } from "tesseract.js";
-
-interface OCRResult {
+import { randomUUID } from "crypto";
+import { existsSync } from "fs";
+import * as path from "path";
+import { createWorker, OEM, PSM } from "tesseract.js";
+import {
+  OCR_LANG_GZIP,
+  OCR_LANG_PATH,
+  OCR_LANGUAGES,
+  OCR_MAX_LANGUAGE_POOLS,
+  OCR_POOL_SIZE,
+} from "../config/env";
+import {
+  encodePng,
+  loadGrayImage,
+  preprocessImage,
+  PREPROCESSING_VARIANTS,
+  toOriginalBox,
+  type ImageTransform,
+  type PreprocessingVariant,
+  type SourceImage,
+} from "../utils/image.utils";
+import { OSD_LANGUAGE, requiredTraineddata } from "../utils/ocr.utils";
+import type { OCRBoundingBox, OCRLanguages, OCRLine } from "../types";
+
+export interface OCRResult {
   text: string;
   confidence: number;
+  languages: string; // Tesseract language string used, e.g. "eng+fra"
+  preprocessing?: PreprocessingVariant; // Unset when the original was used
+  lines: OCRLine[];
+}
+
+export type OCRProgressCallback = (progress: number) => void;
+
+interface WorkerPool {
+  workers: Tesseract.Worker[];
+  idle: Tesseract.Worker[];
+  // Jobs waiting for a free worker, in arrival order
+  queue: ((worker: Tesseract.Worker) => void)[];
+  lastUsed: number;
+}
+
+// Time a recognize job may run once a worker has picked it up
+const RECOGNITION_TIMEOUT_MS = 120000;
+// Time a job may wait in the queue for a free worker
+const QUEUE_TIMEOUT_MS = 10 * 60 * 1000;
+// Auto mode combines at most this many languages of the detected script;
+// every extra language slows recognition down
+const MAX_AUTO_LANGUAGES = 3;
+// Orientation confidence below which OSD rotation is not trusted
+const MIN_ORIENTATION_CONFIDENCE = 2;
+
+// Tesseract language codes per script reported by orientation and script
+// detection (OSD), in rough order of how commonly they are used
+const SCRIPT_LANGUAGES: Record<string, string[]> = {
+  Latin: [
+    "eng",
+    "fra",
+    "spa",
+    "por",
+    "deu",
+    "ita",
+    "nld",
+    "yor",
+    "ibo",
+    "hau",
+    "swa",
+    "pol",
+    "tur",
+    "vie",
+    "ind",
+  ],
+  Cyrillic: ["rus", "ukr", "bul", "srp", "bel", "kaz"],
+  Arabic: ["ara", "fas", "urd"],
+  Greek: ["ell"],
+  Hebrew: ["heb"],
+  Han: ["chi_sim", "chi_tra", "jpn"],
+  Japanese: ["jpn"],
+  Hiragana: ["jpn"],
+  Katakana: ["jpn"],
+  Hangul: ["kor"],
+  Devanagari: ["hin", "mar", "nep"],
+  Bengali: ["ben"],
+  Tamil: ["tam"],
+  Telugu: ["tel"],
+  Kannada: ["kan"],
+  Malayalam: ["mal"],
+  Gujarati: ["guj"],
+  Thai: ["tha"],
+  Ethiopic: ["amh"],
+};
+
+const DEFAULT_LANGUAGES = OCR_LANGUAGES[0] || "eng";
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const toBoundingBox = ({ x0, y0, x1, y1 }: Tesseract.Bbox): OCRBoundingBox => ({
+  x0,
+  y0,
+  x1,
+  y1,
+});
+
+/**
+ * Flattens Tesseract's block/paragraph/line hierarchy into lines of words,
+ * in reading order.
+ */
+function toLines(blocks: Tesseract.Block[] | null): OCRLine[] {
+  return (blocks || []).flatMap((block) =>
+    block.paragraphs.flatMap((paragraph) =>
+      paragraph.lines.map((line) => ({
+        text: line.text.trim(),
+        confidence: round(line.confidence),
+        bbox: toBoundingBox(line.bbox),
+        words: line.words.map((word) => ({
+          text: word.text,
+          confidence: round(word.confidence),
+          bbox: toBoundingBox(word.bbox),
+        })),
+      }))
+    )
+  );
+}
+
+/**
+ * Moves line and word boxes from a preprocessed image onto the original.
+ */
+function toOriginalLines(
+  lines: OCRLine[],
+  transform: ImageTransform
+): OCRLine[] {
+  return lines.map((line) => ({
+    ...line,
+    bbox: toOriginalBox(line.bbox, transform),
+    words: line.words.map((word) => ({
+      ...word,
+      bbox: toOriginalBox(word.bbox, transform),
+    })),
+  }));
+}
+
+/**
+ * Lists the traineddata of the configured languages, and of the OSD model,
+ * that is missing from OCR_LANG_PATH. Remote language paths are not checked.
+ */
+function missingLanguageData(): string[] {
+  if (/^https?:\/\//.test(OCR_LANG_PATH)) return [];
+
+  return requiredTraineddata(OCR_LANGUAGES, OCR_LANG_GZIP).filter(
+    (file) => !existsSync(path.join(OCR_LANG_PATH, file))
+  );
+}
+
+const MISSING_LANGUAGE_DATA = missingLanguageData();
+
+// Without a complete OCR_LANG_PATH, workers fall back to tesseract.js's
+// default CDN; if that is unreachable too, only the OCR jobs fail
+const LANGUAGE_DATA_OPTIONS =
+  MISSING_LANGUAGE_DATA.length === 0
+    ? {
+        langPath: OCR_LANG_PATH,
+        gzip: OCR_LANG_GZIP,
+        // Read traineddata straight from langPath instead of a download cache
+        cacheMethod: "none",
+      }
+    : {};
+
+/**
+ * Warns when traineddata is missing from OCR_LANG_PATH, so OCR would
+ * download it from the CDN instead.
+ */
+export function checkLanguageData(): void {
+  if (MISSING_LANGUAGE_DATA.length === 0) return;
+  console.warn(
+    `⚠️ Missing OCR traineddata in ${OCR_LANG_PATH}: ${MISSING_LANGUAGE_DATA.join(
+      ", "
+    )}. OCR will download it from the tesseract.js CDN; run "pnpm tessdata" to use local files.`
+  );
 }
 
 class OCRService {
-  private worker: Tesseract.Worker | null = null;
-  private isInitializing: boolean = false;
-  private initializationPromise: Promise<void> | null = null;
+  // One pool of workers per language combination; each job runs on the
+  // pool's next free worker
+  private pools = new Map<string, WorkerPool>();
+  private poolInitializations = new Map<string, Promise<WorkerPool>>();
+  // Legacy-engine worker used only for orientation and script detection
+  private osdWorker: Promise<Tesseract.Worker> | null = null;
+  // Progress callbacks keyed by the Tesseract job id of each recognize call
+  private progressCallbacks = new Map<string, OCRProgressCallback>();
+  // Rejects in-flight jobs, whose promises never settle once the pool that
+  // queued them is terminated
+  private jobRejecters = new Map<
+    string,
+    { languages: string; reject: (error: Error) => void }
+  >();
+  // Pools being started, counted against OCR_MAX_LANGUAGE_POOLS
+  private startingPools = 0;
+  // Called whenever a job settles, i.e. a pool may have become idle
+  private jobSettledListeners: (() => void)[] = [];
 
   /**
-   * Initialize worker with proper error handling and configuration
+   * Initialize the worker pool for a language combination with proper
+   * error handling and configuration
    */
-  private async initializeWorker(): Promise<void> {
-    // If already initializing, wait for that to complete
-    if (this.initializationPromise) {
-      return this.initializationPromise;
+  private async initializeWorker(languages: string): Promise<WorkerPool> {
+    // If already initialized, return immediately
+    const existing = this.pools.get(languages);
+    if (existing) {
+      existing.lastUsed = Date.now();
+      return existing;
     }
 
-    // If already initialized, return immediately
-    if (this.worker && !this.isInitializing) {
-      return Promise.resolve();
+    // If already initializing, wait for that to complete
+    let initialization = this.poolInitializations.get(languages);
+    if (!initialization) {
+      initialization = this._doInitialization(languages).finally(() =>
+        this.poolInitializations.delete(languages)
+      );
+      this.poolInitializations.set(languages, initialization);
     }
+    return initialization;
+  }
 
-    // Start initialization
-    this.isInitializing = true;
-    this.initializationPromise = this._doInitialization();
+  private async _doInitialization(languages: string): Promise<WorkerPool> {
+    console.log(
+      `🔧 Initializing Tesseract.js worker pool for ${languages} (${OCR_POOL_SIZE} workers)...`
+    );
+    // Reserves a slot for the pool, released once it is ready or failed
+    await this.makeRoomForPool();
 
     try {
-      await this.initializationPromise;
+      const results = await Promise.allSettled(
+        Array.from({ length: OCR_POOL_SIZE }, () =>
+          this.createPoolWorker(languages)
+        )
+      );
+      const workers = results.flatMap((result) =>
+        result.status === "fulfilled" ? [result.value] : []
+      );
+
+      if (workers.length === 0) {
+        const reason = (results[0] as PromiseRejectedResult).reason;
+        throw reason instanceof Error ? reason : new Error(String(reason));
+      }
+      if (workers.length < OCR_POOL_SIZE) {
+        console.warn(
+          `⚠️ Only ${workers.length}/${OCR_POOL_SIZE} OCR workers started`
+        );
+      }
+
+      const pool: WorkerPool = {
+        workers,
+        idle: [...workers],
+        queue: [],
+        lastUsed: Date.now(),
+      };
+      this.pools.set(languages, pool);
+
+      console.log("✅ Tesseract.js worker pool initialized successfully");
+      return pool;
+    } catch (error) {
+      console.error("❌ Failed to initialize Tesseract.js workers:", error);
+      throw new Error(
+        `OCR initialization failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
     } finally {
-      this.isInitializing = false;
-      this.initializationPromise = null;
+      this.startingPools--;
     }
   }
 
-  private async _doInitialization(): Promise<void> {
-    try {
-      console.log("🔧 Initializing Tesseract.js worker...");
+  /**
+   * Keeps the number of language pools within OCR_MAX_LANGUAGE_POOLS by
+   * terminating the least recently used pools that have no jobs in flight,
+   * then reserves a slot for a new pool. When every pool is busy, waits for
+   * one to become idle.
+   * @throws if no pool became idle within QUEUE_TIMEOUT_MS.
+   */
+  private async makeRoomForPool(): Promise<void> {
+    const deadline = Date.now() + QUEUE_TIMEOUT_MS;
 
-      // Clean up any existing worker first
-      if (this.worker) {
-        await this.closeWorker();
+    while (this.pools.size + this.startingPools >= OCR_MAX_LANGUAGE_POOLS) {
+      const busy = new Set(
+        [...this.jobRejecters.values()].map((job) => job.languages)
+      );
+      const [idle] = [...this.pools.entries()]
+        .filter(([languages]) => !busy.has(languages))
+        .sort(([, a], [, b]) => a.lastUsed - b.lastUsed);
+      if (idle) {
+        await this.closePool(idle[0]);
+        continue;
       }
 
-      // Create worker with timeout protection
-      const workerCreationPromise = createWorker("eng", 1, {
-        logger: (m) => {
-          // Only log important progress to reduce noise
-          if (m.status === "recognizing text" && m.progress > 0) {
-            console.log(`📝 OCR Progress: ${Math.round(m.progress * 100)}%`);
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new Error("OCR queue timeout: every language pool stayed busy");
+      }
+      console.log("⏳ Every OCR language pool is busy, waiting for one");
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, remaining);
+        this.jobSettledListeners.push(() => {
+          clearTimeout(timer);
+          resolve();
+        });
+      });
+    }
+    this.startingPools++;
+  }
+
+  private notifyJobSettled(): void {
+    const listeners = this.jobSettledListeners;
+    this.jobSettledListeners = [];
+    listeners.forEach((listener) => listener());
+  }
+
+  private async createPoolWorker(languages: string): Promise<Tesseract.Worker> {
+    // Create worker with timeout protection
+    const workerCreationPromise = createWorker(languages.split("+"), 1, {
+      ...LANGUAGE_DATA_OPTIONS,
+      logger: (m) => {
+        // Only log important progress to reduce noise
+        if (m.status === "recognizing text" && m.progress > 0) {
+          console.log(`📝 OCR Progress: ${Math.round(m.progress * 100)}%`);
+          this.progressCallbacks.get(m.userJobId)?.(m.progress);
+        }
+      },
+      errorHandler: (err) => {
+        console.error("🚨 Tesseract worker error:", err);
+      },
+    });
+
+    // Add timeout for worker creation
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      setTimeout(() => {
+        reject(new Error("Worker initialization timeout after 30 seconds"));
+      }, 30000);
+    });
+
+    const worker = await Promise.race([workerCreationPromise, timeoutPromise]);
+
+    // Configure worker parameters for better performance
+    await worker.setParameters({
+      tessedit_pageseg_mode: PSM.AUTO,
+      tessedit_char_whitelist: "", // Allow all characters
+      preserve_interword_spaces: "1",
+      tessedit_do_invert: "0",
+      // Improve performance settings
+      classify_enable_learning: "0",
+      classify_enable_adaptive_matcher: "1",
+    });
+
+    return worker;
+  }
+
+  /**
+   * Hands queued jobs to idle workers.
+   */
+  private dispatch(pool: WorkerPool): void {
+    while (pool.queue.length > 0 && pool.idle.length > 0) {
+      const worker = pool.idle.shift()!;
+      pool.queue.shift()!(worker);
+    }
+  }
+
+  /**
+   * Runs a job on the pool's next free worker, racing it against two
+   * deadlines: one for waiting in the queue and one for recognition, which
+   * starts when a worker picks the job up. A worker whose job timed out or
+   * crashed is replaced, since a timed-out job keeps it busy.
+   */
+  private runOnPool<T>(
+    jobId: string,
+    languages: string,
+    pool: WorkerPool,
+    run: (worker: Tesseract.Worker) => Promise<T>
+  ): Promise<T> {
+    let queueTimer: NodeJS.Timeout | undefined;
+    let runTimer: NodeJS.Timeout | undefined;
+    let settled = false;
+    let timedOutWorker: Tesseract.Worker | null = null;
+
+    // The pool may have been evicted while the caller waited for it
+    if (this.pools.get(languages) !== pool) {
+      return Promise.reject(new Error("OCR worker pool was reset"));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const settle = (error: Error | null, value?: T) => {
+        if (settled) return;
+        settled = true;
+        this.jobRejecters.delete(jobId);
+        clearTimeout(queueTimer);
+        clearTimeout(runTimer);
+        if (error) reject(error);
+        else resolve(value as T);
+        this.notifyJobSettled();
+      };
+
+      this.jobRejecters.set(jobId, {
+        languages,
+        reject: (error) => settle(error),
+      });
+      queueTimer = setTimeout(() => {
+        settle(new Error("OCR queue timeout: no worker became available"));
+      }, QUEUE_TIMEOUT_MS);
+
+      pool.queue.push(async (worker) => {
+        // Jobs that timed out in the queue give their worker straight back
+        if (settled) {
+          this.releaseWorker(pool, worker);
+          return;
+        }
+        clearTimeout(queueTimer);
+        runTimer = setTimeout(() => {
+          timedOutWorker = worker;
+          settle(
+            new Error(
+              `OCR recognition timeout after ${
+                RECOGNITION_TIMEOUT_MS / 1000
+              } seconds`
+            )
+          );
+          void this.replaceWorker(languages, pool, worker);
+        }, RECOGNITION_TIMEOUT_MS);
+
+        try {
+          settle(null, await run(worker));
+          this.releaseWorker(pool, worker);
+        } catch (error) {
+          const failure =
+            error instanceof Error ? error : new Error(String(error));
+          settle(failure);
+          if (timedOutWorker === worker) return;
+          if (failure.message.includes("Worker")) {
+            console.log("🔄 OCR worker appears corrupted, replacing it");
+            void this.replaceWorker(languages, pool, worker);
+          } else {
+            this.releaseWorker(pool, worker);
           }
-        },
+        }
+      });
+      this.dispatch(pool);
+    });
+  }
+
+  /**
+   * Returns a worker to its pool, unless it was removed meanwhile.
+   */
+  private releaseWorker(pool: WorkerPool, worker: Tesseract.Worker): void {
+    if (!pool.workers.includes(worker)) return;
+    pool.idle.push(worker);
+    this.dispatch(pool);
+  }
+
+  /**
+   * Terminates one worker of a pool, stopping whatever it still runs, and
+   * starts a fresh one in its place. Jobs on the pool's other workers are
+   * unaffected.
+   */
+  private async replaceWorker(
+    languages: string,
+    pool: WorkerPool,
+    worker: Tesseract.Worker
+  ): Promise<void> {
+    pool.workers = pool.workers.filter((w) => w !== worker);
+    pool.idle = pool.idle.filter((w) => w !== worker);
+    try {
+      await worker.terminate();
+    } catch (error) {
+      console.warn("⚠️ Error terminating Tesseract.js worker:", error);
+    }
+
+    try {
+      const replacement = await this.createPoolWorker(languages);
+      // The pool may have been closed while the worker started
+      if (this.pools.get(languages) !== pool) {
+        await replacement.terminate();
+        return;
+      }
+      pool.workers.push(replacement);
+      this.releaseWorker(pool, replacement);
+      console.log(`✅ Replaced a Tesseract.js worker for ${languages}`);
+    } catch (error) {
+      console.error("❌ Failed to replace Tesseract.js worker:", error);
+      // Without workers, queued jobs would wait for the queue timeout
+      if (pool.workers.length === 0) await this.closePool(languages);
+    }
+  }
+
+  private getOsdWorker(): Promise<Tesseract.Worker> {
+    if (!this.osdWorker) {
+      console.log("🔧 Initializing Tesseract.js OSD worker...");
+      this.osdWorker = createWorker(OSD_LANGUAGE, OEM.TESSERACT_ONLY, {
+        ...LANGUAGE_DATA_OPTIONS,
+        legacyCore: true,
+        legacyLang: true,
         errorHandler: (err) => {
-          console.error("🚨 Tesseract worker error:", err);
+          console.error("🚨 Tesseract OSD worker error:", err);
         },
+      }).catch((error) => {
+        this.osdWorker = null;
+        throw error;
       });
+    }
+    return this.osdWorker;
+  }
 
-      // Add timeout for worker creation
+  /**
+   * Runs orientation and script detection (OSD) on an image.
+   * @returns null when detection fails.
+   */
+  private async detectOrientationAndScript(
+    imageData: Buffer
+  ): Promise<Tesseract.DetectData | null> {
+    try {
+      const worker = await this.getOsdWorker();
       const timeoutPromise = new Promise<never>((_, reject) => {
         setTimeout(() => {
-          reject(new Error("Worker initialization timeout after 30 seconds"));
+          reject(new Error("Script detection timeout after 30 seconds"));
         }, 30000);
       });
+      const { data } = await Promise.race([
+        worker.detect(imageData),
+        timeoutPromise,
+      ]);
 
-      this.worker = await Promise.race([workerCreationPromise, timeoutPromise]);
-
-      // Configure worker parameters for better performance
-      await this.worker.setParameters({
-        tessedit_pageseg_mode: PSM.AUTO,
-        tessedit_char_whitelist: "", // Allow all characters
-        preserve_interword_spaces: "1",
-        tessedit_do_invert: "0",
-        // Improve performance settings
-        classify_enable_learning: "0",
-        classify_enable_adaptive_matcher: "1",
-      });
+      console.log(
+        `🧭 Detected script ${data.script ?? "unknown"} (confidence ${
+          data.script_confidence?.toFixed(1) ?? "n/a"
+        }), orientation ${data.orientation_degrees ?? "unknown"}° (confidence ${
+          data.orientation_confidence?.toFixed(1) ?? "n/a"
+        })`
+      );
+      return data;
+    } catch (error) {
+      console.warn("⚠️ Orientation and script detection failed:", error);
+      return null;
+    }
+  }
 
-      console.log("✅ Tesseract.js worker initialized successfully");
+  /**
+   * Picks OCR languages for a detected script, limited to the installed
+   * languages. Falls back to the default language when detection failed or
+   * the script has no installed language.
+   */
+  private languagesForScript(osd: Tesseract.DetectData | null): string {
+    const candidates = SCRIPT_LANGUAGES[osd?.script || ""] || [];
+    const languages = OCR_LANGUAGES.filter((language) =>
+      candidates.includes(language)
+    ).slice(0, MAX_AUTO_LANGUAGES);
+
+    const resolved =
+      languages.length > 0 ? languages.join("+") : DEFAULT_LANGUAGES;
+    console.log(`🌐 Using OCR languages ${resolved}`);
+    return resolved;
+  }
+
+  /**
+   * Picks OCR languages for an image from its detected script.
+   */
+  async detectLanguages(imageData: Buffer): Promise<string> {
+    return this.languagesForScript(
+      await this.detectOrientationAndScript(imageData)
+    );
+  }
+
+  /**
+   * Clockwise rotation that makes a page upright, or 0 when OSD is unsure.
+   * OSD reports the rotation needed to correct the page.
+   */
+  private rotationFor(osd: Tesseract.DetectData | null): number {
+    if (
+      !osd?.orientation_degrees ||
+      (osd.orientation_confidence ?? 0) < MIN_ORIENTATION_CONFIDENCE
+    ) {
+      return 0;
+    }
+    console.log(`🔃 Rotating page ${osd.orientation_degrees}° clockwise`);
+    return osd.orientation_degrees;
+  }
+
+  /**
+   * Decodes an image for preprocessing.
+   * @returns null when the format cannot be decoded, in which case the
+   * original image is sent to Tesseract unchanged.
+   */
+  private async loadForPreprocessing(
+    imageData: Buffer,
+    mimeType: string
+  ): Promise<SourceImage | null> {
+    try {
+      return await loadGrayImage(imageData);
     } catch (error) {
-      console.error("❌ Failed to initialize Tesseract.js worker:", error);
-      this.worker = null;
-      throw new Error(
-        `OCR initialization failed: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`
+      console.warn(
+        `⚠️ Cannot preprocess ${mimeType} image, using it unchanged:`,
+        error instanceof Error ? error.message : error
       );
+      return null;
     }
   }
 
+  /**
+   * Resolves a language setting to a Tesseract language string.
+   */
+  private async resolveLanguages(
+    imageData: Buffer,
+    languages?: OCRLanguages
+  ): Promise<string> {
+    if (languages === "auto") return this.detectLanguages(imageData);
+    if (!languages || languages.length === 0) return DEFAULT_LANGUAGES;
+    return [...languages].sort().join("+");
+  }
+
   /**
    * Validate image data before processing
    */
@@ -115,7 +637,7 @@ class OCRService {
       "image/gif",
       "image/bmp",
       "image/tiff",
-      "application/pdf", // For PDF OCR fallback
+      "image/webp",
     ];
 
     if (!supportedTypes.includes(mimeType.toLowerCase())) {
@@ -126,8 +648,15 @@ class OCRService {
   /**
    * Perform OCR on image data with comprehensive error handling
    */
-  async performOCR(imageData: Buffer, mimeType: string): Promise<OCRResult> {
+  async performOCR(
+    imageData: Buffer,
+    mimeType: string,
+    onProgress?: OCRProgressCallback,
+    requestedLanguages?: OCRLanguages
+  ): Promise<OCRResult> {
     const startTime = Date.now();
+    const jobId = `ocr-${randomUUID()}`;
+    let languages = DEFAULT_LANGUAGES;
 
     try {
       console.log(
@@ -137,24 +666,21 @@ class OCRService {
       // Validate input
       this.validateImageData(imageData, mimeType);
 
-      // Ensure worker is ready
-      await this.initializeWorker();
+      languages = await this.resolveLanguages(imageData, requestedLanguages);
 
-      if (!this.worker) {
-        throw new Error("Tesseract.js worker is not available");
-      }
+      // Ensure the worker pool for these languages is ready
+      const pool = await this.initializeWorker(languages);
 
-      console.log(`🚀 Beginning OCR recognition...`);
+      console.log(
+        `🚀 Queueing OCR recognition in ${languages} (${pool.queue.length} job(s) waiting)...`
+      );
 
-      // Perform OCR with timeout
-      const ocrPromise = this.worker.recognize(imageData);
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => {
-          reject(new Error("OCR recognition timeout after 120 seconds"));
-        }, 120000); // 2 minutes timeout
-      });
+      if (onProgress) this.progressCallbacks.set(jobId, onProgress);
 
-      const result = await Promise.race([ocrPromise, timeoutPromise]);
+      // Perform OCR with timeout on the pool's next free worker
+      const result = await this.runOnPool(jobId, languages, pool, (worker) =>
+        worker.recognize(imageData, {}, { blocks: true }, jobId)
+      );
 
       const processingTime = Date.now() - startTime;
       const { text, confidence } = result.data;
@@ -192,47 +718,93 @@ class OCRService {
       return {
         text: cleanText,
         confidence: finalConfidence,
+        languages,
+        lines: toLines(result.data.blocks),
       };
     } catch (error) {
       const processingTime = Date.now() - startTime;
       console.error(`❌ OCR failed after ${processingTime}ms:`, error);
 
-      // Handle specific error types
+      // Handle specific error types; runOnPool already replaced any worker
+      // that timed out or crashed
       if (error instanceof Error) {
         if (error.message.includes("timeout")) {
           throw new Error(`OCR timeout: Processing took longer than expected`);
         }
-        if (error.message.includes("Worker")) {
-          console.log(
-            "🔄 Worker appears corrupted, will reinitialize on next attempt"
-          );
-          await this.closeWorker();
-        }
         throw new Error(`OCR recognition failed: ${error.message}`);
       }
 
       throw new Error("OCR failed with unknown error");
+    } finally {
+      this.progressCallbacks.delete(jobId);
     }
   }
 
   /**
-   * Perform OCR with intelligent retry mechanism
+   * Perform OCR with intelligent retry mechanism. The page orientation (and,
+   * in "auto" language mode, the script) is detected once, then each
+   * attempt OCRs a different preprocessing variant of the image and the
+   * most confident result wins.
    */
   async performOCRWithRetry(
     imageData: Buffer,
     mimeType: string,
-    maxRetries: number = 3
+    maxRetries: number = 3,
+    onProgress?: OCRProgressCallback,
+    requestedLanguages?: OCRLanguages
   ): Promise<OCRResult> {
     let lastError: Error | null = null;
     let bestResult: OCRResult | null = null;
 
+    this.validateImageData(imageData, mimeType);
+    const image = await this.loadForPreprocessing(imageData, mimeType);
+    const osd = await this.detectOrientationAndScript(
+      image ? await encodePng(image) : imageData
+    );
+    const languages =
+      requestedLanguages === "auto"
+        ? this.languagesForScript(osd).split("+")
+        : requestedLanguages;
+    const rotation = image ? this.rotationFor(osd) : 0;
+
     console.log(`🔄 Starting OCR with up to ${maxRetries} attempts`);
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
-        console.log(`📝 OCR attempt ${attempt}/${maxRetries}`);
+        const variant =
+          PREPROCESSING_VARIANTS[(attempt - 1) % PREPROCESSING_VARIANTS.length];
+        console.log(
+          `📝 OCR attempt ${attempt}/${maxRetries}${
+            image ? ` (${variant} preprocessing)` : ""
+          }`
+        );
 
-        const result = await this.performOCR(imageData, mimeType);
+        let result: OCRResult;
+        if (image) {
+          const { png, transform } = await preprocessImage(
+            image,
+            variant,
+            rotation
+          );
+          const ocr = await this.performOCR(
+            png,
+            "image/png",
+            onProgress,
+            languages
+          );
+          result = {
+            ...ocr,
+            preprocessing: variant,
+            lines: toOriginalLines(ocr.lines, transform),
+          };
+        } else {
+          result = await this.performOCR(
+            imageData,
+            mimeType,
+            onProgress,
+            languages
+          );
+        }
 
         // If we get a good result, return it immediately
         if (result.confidence >= 70 && result.text.length > 0) {
@@ -242,8 +814,14 @@ class OCRService {
           return result;
         }
 
-        // Keep track of the best result so far
-        if (!bestResult || result.confidence > bestResult.confidence) {
+        // Keep track of the best result so far; a variant that found text
+        // beats one that found none, whatever Tesseract's confidence
+        if (
+          !bestResult ||
+          (result.text.length > 0 &&
+            (bestResult.text.length === 0 ||
+              result.confidence > bestResult.confidence))
+        ) {
           bestResult = result;
           console.log(
             `📊 New best result: ${result.confidence.toFixed(1)}% confidence`
@@ -255,8 +833,6 @@ class OCRService {
           console.log(
             `🔄 Low confidence (${result.confidence.toFixed(1)}%), retrying...`
           );
-          await this.closeWorker(); // Fresh start for next attempt
-          await new Promise((resolve) => setTimeout(resolve, 2000)); // Wait 2 seconds
           continue;
         }
 
@@ -273,8 +849,7 @@ class OCRService {
         );
 
         if (attempt < maxRetries) {
-          console.log(`🔄 Cleaning up before retry attempt ${attempt + 1}`);
-          await this.closeWorker();
+          console.log(`🔄 Waiting before retry attempt ${attempt + 1}`);
           await new Promise((resolve) => setTimeout(resolve, 2000));
         }
       }
@@ -301,40 +876,73 @@ class OCRService {
   }
 
   /**
-   * Properly terminate the worker with error handling
+   * Properly terminate a language pool with error handling. Jobs still
+   * running on it fail and are retried on a fresh pool.
+   */
+  private async closePool(languages: string): Promise<void> {
+    const pool = this.pools.get(languages);
+    if (!pool) return;
+
+    this.pools.delete(languages);
+    pool.queue = [];
+    for (const [jobId, job] of this.jobRejecters) {
+      if (job.languages !== languages) continue;
+      job.reject(new Error("OCR worker pool was reset"));
+      this.jobRejecters.delete(jobId);
+    }
+
+    try {
+      console.log(
+        `🛑 Terminating Tesseract.js worker pool for ${languages}...`
+      );
+      await Promise.all(pool.workers.map((worker) => worker.terminate()));
+      console.log("✅ Tesseract.js worker pool terminated successfully");
+    } catch (error) {
+      console.warn("⚠️ Error terminating Tesseract.js worker pool:", error);
+    }
+  }
+
+  /**
+   * Properly terminate all workers with error handling
    */
   async closeWorker(): Promise<void> {
-    if (this.worker) {
+    await Promise.all([...this.pools.keys()].map((key) => this.closePool(key)));
+
+    const osdWorker = this.osdWorker;
+    this.osdWorker = null;
+    if (osdWorker) {
       try {
-        console.log("🛑 Terminating Tesseract.js worker...");
-        await this.worker.terminate();
-        console.log("✅ Tesseract.js worker terminated successfully");
+        await (await osdWorker).terminate();
       } catch (error) {
-        console.warn("⚠️ Error terminating Tesseract.js worker:", error);
-      } finally {
-        this.worker = null;
-        this.isInitializing = false;
-        this.initializationPromise = null;
+        console.warn("⚠️ Error terminating Tesseract.js OSD worker:", error);
       }
     }
   }
 
   /**
-   * Get detailed worker status for debugging
+   * Get detailed worker pool status for debugging
    */
   getWorkerStatus(): {
     status: string;
     isInitializing: boolean;
     hasWorker: boolean;
+    workers: number;
+    queuedJobs: number;
+    languagePools: string[];
   } {
+    const pools = [...this.pools.values()];
+    const isInitializing = this.poolInitializations.size > 0;
     return {
-      status: this.isInitializing
+      status: isInitializing
         ? "initializing"
-        : this.worker
+        : pools.length > 0
         ? "ready"
         : "not_initialized",
-      isInitializing: this.isInitializing,
-      hasWorker: !!this.worker,
+      isInitializing,
+      hasWorker: pools.length > 0,
+      workers: pools.reduce((sum, pool) => sum + pool.workers.length, 0),
+      queuedJobs: pools.reduce((sum, pool) => sum + pool.queue.length, 0),
+      languagePools: [...this.pools.keys()],
     };
   }
 
@@ -346,11 +954,8 @@ class OCRService {
       const status = this.getWorkerStatus();
       console.log("🏥 OCR Health Check:", status);
 
-      if (!this.worker && !this.isInitializing) {
-        await this.initializeWorker();
-      }
-
-      return !!this.worker;
+      await this.initializeWorker(DEFAULT_LANGUAGES);
+      return this.pools.has(DEFAULT_LANGUAGES);
     } catch (error) {
       console.error("🚨 OCR Health Check failed:", error);
       return false;
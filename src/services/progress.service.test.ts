@@ -0,0 +1,69 @@
+import { fitPayload } from "./progress.service";
+import type { ProcessingEvent } from "../types";
+
+// Mirrors the limit in progress.service
+const MAX_PAYLOAD_BYTES = 7900;
+
+const payloadBytes = (event: ProcessingEvent) =>
+  Buffer.byteLength(JSON.stringify(event));
+
+function event(overrides: Partial<ProcessingEvent>): ProcessingEvent {
+  return {
+    sessionId: "session-1",
+    stage: "streaming",
+    message: "Generating summary",
+    step: "summary",
+    timestamp: "2025-01-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("fitPayload", () => {
+  it("returns small events unchanged", () => {
+    const small = event({ delta: "Hello" });
+    expect(fitPayload(small)).toEqual([small]);
+  });
+
+  it("splits a long delta into parts that fit, in order", () => {
+    const delta = "Lorem ipsum dolor sit amet. ".repeat(1000);
+    const parts = fitPayload(event({ delta }));
+
+    expect(parts.length).toBeGreaterThan(1);
+    for (const part of parts) {
+      expect(payloadBytes(part)).toBeLessThanOrEqual(MAX_PAYLOAD_BYTES);
+      expect(part.message).toBe("Generating summary");
+    }
+    expect(parts.map((part) => part.delta).join("")).toBe(delta);
+  });
+
+  it("keeps surrogate pairs together when splitting", () => {
+    const delta = "😀".repeat(5000);
+    const parts = fitPayload(event({ delta }));
+
+    expect(parts.length).toBeGreaterThan(1);
+    for (const part of parts) {
+      expect(part.delta).not.toMatch(/^[\uDC00-\uDFFF]|[\uD800-\uDBFF]$/);
+    }
+    expect(parts.map((part) => part.delta).join("")).toBe(delta);
+  });
+
+  it("accounts for characters that JSON escapes", () => {
+    const delta = '"\n'.repeat(5000);
+    const parts = fitPayload(event({ delta }));
+
+    for (const part of parts) {
+      expect(payloadBytes(part)).toBeLessThanOrEqual(MAX_PAYLOAD_BYTES);
+    }
+    expect(parts.map((part) => part.delta).join("")).toBe(delta);
+  });
+
+  it("truncates a long message with an ellipsis", () => {
+    const message = `Failed files: ${"é-report.pdf, ".repeat(1000)}`;
+    const parts = fitPayload(event({ stage: "failed", message }));
+
+    expect(parts).toHaveLength(1);
+    expect(payloadBytes(parts[0])).toBeLessThanOrEqual(MAX_PAYLOAD_BYTES);
+    expect(parts[0].message.endsWith("…")).toBe(true);
+    expect(message.startsWith(parts[0].message.slice(0, -1))).toBe(true);
+  });
+});
@@ -0,0 +1,143 @@
+// summaid-backend/src/services/progress.service.ts
+import { EventEmitter } from "events";
+import type { PoolClient } from "pg";
+import { pool } from "../config/database";
+import type { ProcessingEvent, ProcessingUpdate } from "../types";
+
+const CHANNEL = "session_progress";
+const RECONNECT_DELAY_MS = 5000;
+// NOTIFY payloads must be shorter than 8000 bytes
+const MAX_PAYLOAD_BYTES = 7900;
+
+type ProgressListener = (event: ProcessingEvent) => void;
+
+function payloadBytes(event: ProcessingEvent): number {
+  return Buffer.byteLength(JSON.stringify(event));
+}
+
+/**
+ * Splits or shortens an event so each part fits in a NOTIFY payload.
+ * Streamed text is split across several events so none of it is lost;
+ * other long messages (e.g. errors listing every failed file) are
+ * truncated.
+ */
+export function fitPayload(event: ProcessingEvent): ProcessingEvent[] {
+  if (payloadBytes(event) <= MAX_PAYLOAD_BYTES) return [event];
+
+  const { delta } = event;
+  if (delta && delta.length > 1) {
+    let middle = Math.ceil(delta.length / 2);
+    // Keep surrogate pairs together
+    const code = delta.charCodeAt(middle - 1);
+    if (code >= 0xd800 && code <= 0xdbff) middle++;
+    return [
+      ...fitPayload({ ...event, delta: delta.slice(0, middle) }),
+      ...fitPayload({ ...event, delta: delta.slice(middle) }),
+    ];
+  }
+
+  let message = event.message;
+  let fitted = event;
+  while (payloadBytes(fitted) > MAX_PAYLOAD_BYTES && message) {
+    // Cut roughly the excess, in characters of the message's average size
+    const excess = payloadBytes(fitted) - MAX_PAYLOAD_BYTES;
+    const bytesPerChar =
+      Buffer.byteLength(JSON.stringify(message)) / message.length;
+    const cut = Math.ceil(excess / bytesPerChar) + 1;
+    message = message.slice(0, Math.max(message.length - cut, 0));
+    fitted = { ...event, message: `${message}…` };
+  }
+  return [fitted];
+}
+
+/**
+ * Fans processing progress out to subscribers. Events travel through
+ * Postgres NOTIFY so subscribers on one instance receive progress from jobs
+ * running on another.
+ */
+class ProgressService {
+  private emitter = new EventEmitter();
+  private listenClient: PoolClient | null = null;
+  private connecting: Promise<void> | null = null;
+
+  constructor() {
+    // One listener per open SSE connection
+    this.emitter.setMaxListeners(0);
+  }
+
+  private async ensureListening(): Promise<void> {
+    if (this.listenClient) return;
+    if (!this.connecting) {
+      this.connecting = (async () => {
+        const client = await pool.connect();
+        client.on("notification", (msg) => {
+          if (msg.channel !== CHANNEL || !msg.payload) return;
+          try {
+            const event = JSON.parse(msg.payload) as ProcessingEvent;
+            this.emitter.emit(event.sessionId, event);
+          } catch (error) {
+            console.warn("⚠️ Ignoring malformed progress event:", error);
+          }
+        });
+        client.on("error", (error) => {
+          console.error("❌ Progress listener connection lost:", error);
+          client.release(error);
+          this.listenClient = null;
+          if (this.emitter.eventNames().length > 0) {
+            setTimeout(() => {
+              this.ensureListening().catch(() => undefined);
+            }, RECONNECT_DELAY_MS);
+          }
+        });
+        await client.query(`LISTEN ${CHANNEL}`);
+        this.listenClient = client;
+      })().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  /**
+   * Publishes a progress event for a session, split or truncated to fit
+   * a NOTIFY payload. Failures are logged and swallowed so progress
+   * reporting never breaks processing.
+   */
+  async publish(
+    sessionId: string,
+    event: ProcessingUpdate
+  ): Promise<void> {
+    const payload: ProcessingEvent = {
+      ...event,
+      sessionId,
+      timestamp: new Date().toISOString(),
+    };
+    try {
+      for (const part of fitPayload(payload)) {
+        await pool.query("SELECT pg_notify($1, $2)", [
+          CHANNEL,
+          JSON.stringify(part),
+        ]);
+      }
+    } catch (error) {
+      console.warn(`⚠️ Failed to publish progress for ${sessionId}:`, error);
+    }
+  }
+
+  /**
+   * Subscribes to a session's progress events.
+   * @returns A function that removes the subscription.
+   */
+  async subscribe(
+    sessionId: string,
+    listener: ProgressListener
+  ): Promise<() => void> {
+    await this.ensureListening();
+    this.emitter.on(sessionId, listener);
+    return () => {
+      this.emitter.off(sessionId, listener);
+    };
+  }
+}
+
+export const progressService = new ProgressService();
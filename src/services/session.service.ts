@@ -0,0 +1,229 @@
+// summaid-backend/src/services/session.service.ts
+import { pool } from "../config/database";
+import { db } from "../config/supabase";
+import { HttpError } from "../utils/error.utils";
+import { fileTextService } from "./file-text.service";
+import { flashcardService } from "./flashcard.service";
+import { quizService } from "./quiz.service";
+import type {
+  CloudinaryFileDetail,
+  DocumentProcessingPreferences,
+  SessionDocument,
+} from "../types";
+
+// Statuses during which a session's inputs must not change
+export const ACTIVE_STATUSES = ["queued", "processing"];
+
+// Columns returned when listing sessions; generated artifacts are omitted
+const LIST_COLUMNS =
+  "id, user_id, title, status, files, preferences, error_message, created_at, processed_at";
+
+export interface SessionListOptions {
+  page: number;
+  pageSize: number;
+  status?: string;
+}
+
+export interface SessionUpdate {
+  title?: string | null;
+  files?: CloudinaryFileDetail[];
+  preferences?: DocumentProcessingPreferences;
+}
+
+class SessionService {
+  /**
+   * Fetches any user's session; callers must check access themselves.
+   * @throws HttpError 404 if the session does not exist.
+   */
+  async getSession(sessionId: string): Promise<SessionDocument> {
+    const { data, error } = await db
+      .from("sessions")
+      .select("*")
+      .eq("id", sessionId)
+      .single();
+
+    if (error || !data) throw new HttpError(404, "Session not found.");
+    return data as unknown as SessionDocument;
+  }
+
+  /**
+   * Fetches a session and verifies it belongs to the user.
+   * @throws HttpError 404 if the session does not exist, 403 if not owned.
+   */
+  async getOwnedSession(
+    sessionId: string,
+    userId: string
+  ): Promise<SessionDocument> {
+    const session = await this.getSession(sessionId);
+    if (session.user_id !== userId) throw new HttpError(403, "Unauthorized");
+    return session;
+  }
+
+  /**
+   * Lists a user's sessions, or every user's when `userId` is null,
+   * newest first.
+   */
+  async listSessions(
+    userId: string | null,
+    { page, pageSize, status }: SessionListOptions
+  ): Promise<{ sessions: SessionDocument[]; total: number }> {
+    const from = (page - 1) * pageSize;
+    let query = db.from("sessions").select(LIST_COLUMNS, { count: "exact" });
+
+    if (userId) query = query.eq("user_id", userId);
+    if (status) query = query.eq("status", status);
+
+    const { data, error, count } = await query
+      .order("created_at", { ascending: false })
+      .range(from, from + pageSize - 1);
+
+    if (error) throw new Error(`Failed to list sessions: ${error.message}`);
+
+    return {
+      sessions: (data || []) as unknown as SessionDocument[],
+      total: count ?? 0,
+    };
+  }
+
+  async createSession(
+    userId: string,
+    input: {
+      title?: string | null;
+      files: CloudinaryFileDetail[];
+      preferences: DocumentProcessingPreferences;
+    }
+  ): Promise<SessionDocument> {
+    const { data, error } = await db
+      .from("sessions")
+      .insert({
+        user_id: userId,
+        title: input.title ?? null,
+        files: input.files,
+        preferences: input.preferences,
+        status: "pending",
+      })
+      .select("*")
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to create session: ${error?.message}`);
+    }
+    return data as unknown as SessionDocument;
+  }
+
+  /**
+   * Updates a session's title, files or preferences. Files and preferences
+   * cannot change while the session is being processed. Changing the OCR
+   * languages drops the cached file texts, except those the user edited.
+   */
+  async updateSession(
+    sessionId: string,
+    userId: string,
+    update: SessionUpdate
+  ): Promise<SessionDocument> {
+    const session = await this.getOwnedSession(sessionId, userId);
+
+    if (
+      (update.files || update.preferences) &&
+      ACTIVE_STATUSES.includes(session.status)
+    ) {
+      throw new HttpError(
+        409,
+        "Files and preferences cannot change while the session is processing."
+      );
+    }
+
+    // Text extracted with other OCR languages must be extracted again
+    if (
+      update.preferences &&
+      JSON.stringify(update.preferences.ocrLanguages) !==
+        JSON.stringify(session.preferences.ocrLanguages)
+    ) {
+      await fileTextService.deleteTexts(sessionId, { keepEdited: true });
+    }
+
+    const { data, error } = await db
+      .from("sessions")
+      .update({ ...update })
+      .eq("id", sessionId)
+      .select("*")
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to update session: ${error?.message}`);
+    }
+    return data as unknown as SessionDocument;
+  }
+
+  /**
+   * Appends files to a session in a single statement that re-checks the
+   * session's status, file count and byte total against the stored files,
+   * so concurrent uploads cannot overwrite each other or exceed the limits.
+   * @throws HttpError 409 when the session is processing or the files no
+   * longer fit.
+   */
+  async appendFiles(
+    sessionId: string,
+    userId: string,
+    files: CloudinaryFileDetail[],
+    limits: { maxFiles: number; maxBytes: number }
+  ): Promise<SessionDocument> {
+    const bytes = files.reduce((sum, file) => sum + file.size, 0);
+    const { rowCount } = await pool.query(
+      `UPDATE sessions
+       SET files = files || $3::jsonb
+       WHERE id = $1
+         AND user_id = $2
+         AND status <> ALL($4::text[])
+         AND jsonb_array_length(files) + jsonb_array_length($3::jsonb) <= $5
+         AND (SELECT COALESCE(SUM((file->>'size')::bigint), 0)
+              FROM jsonb_array_elements(files) AS file) + $6 <= $7`,
+      [
+        sessionId,
+        userId,
+        JSON.stringify(files),
+        ACTIVE_STATUSES,
+        limits.maxFiles,
+        bytes,
+        limits.maxBytes,
+      ]
+    );
+
+    if (!rowCount) {
+      throw new HttpError(
+        409,
+        "Files cannot be added: the session is processing or its file or byte limit was reached."
+      );
+    }
+    return this.getSession(sessionId);
+  }
+
+  /**
+   * Deletes a session, its indexed chunks, its cached file texts, its
+   * flashcard review records and its quiz attempts.
+   */
+  async deleteSession(sessionId: string, userId: string): Promise<void> {
+    const session = await this.getOwnedSession(sessionId, userId);
+
+    if (ACTIVE_STATUSES.includes(session.status)) {
+      throw new HttpError(409, "Session cannot be deleted while processing.");
+    }
+
+    const { error: chunksError } = await db
+      .from("document_chunks")
+      .delete()
+      .eq("session_id", sessionId);
+    if (chunksError) {
+      throw new Error(`Failed to delete session chunks: ${chunksError.message}`);
+    }
+
+    await fileTextService.deleteTexts(sessionId);
+    await flashcardService.deleteSessionCards(sessionId);
+    await quizService.deleteSessionAttempts(sessionId);
+
+    const { error } = await db.from("sessions").delete().eq("id", sessionId);
+    if (error) throw new Error(`Failed to delete session: ${error.message}`);
+  }
+}
+
+export const sessionService = new SessionService();
@@ -0,0 +1,514 @@
+// summaid-backend/src/services/upload.service.ts
+import busboy from "busboy";
+import type { IncomingMessage } from "http";
+import { PassThrough, Readable } from "stream";
+import type { UploadApiResponse } from "cloudinary";
+import { cloudinary, userUploadFolder } from "../config/cloudinary";
+import { UPLOAD_MAX_FILE_BYTES, UPLOAD_MAX_SESSION_BYTES } from "../config/env";
+import { extractorRegistry } from "../extractors";
+import { HttpError } from "../utils/error.utils";
+import { MAX_FILES_PER_SESSION } from "../utils/validation.utils";
+import { ACTIVE_STATUSES, sessionService } from "./session.service";
+import { fileKey } from "./file-text.service";
+import type {
+  CloudinaryFileDetail,
+  SessionDocument,
+  SessionFileInput,
+} from "../types";
+
+// Bytes buffered before sniffing; enough for magic bytes and the OOXML
+// entry names that tell docx, pptx and xlsx apart
+const SNIFF_BYTES = 64 * 1024;
+
+type ResourceType = "image" | "raw";
+
+export interface UploadError {
+  fileName: string;
+  message: string;
+}
+
+// The fields of `cloudinary.api.resource` that session files are built from
+interface StoredAsset {
+  bytes: number;
+  format?: string;
+  resource_type: ResourceType;
+  secure_url: string;
+  context?: { custom?: Record<string, string> };
+}
+
+export interface UploadResult {
+  files: CloudinaryFileDetail[];
+  errors: UploadError[];
+  session?: SessionDocument;
+}
+
+// Cloudinary only renders PDFs and images as image assets; everything else
+// is stored untouched as raw
+function resourceTypeFor(mimeType: string): ResourceType {
+  return mimeType === "application/pdf" || mimeType.startsWith("image/")
+    ? "image"
+    : "raw";
+}
+
+// Image assets without a recorded type, such as uploads made before it was
+// stored, are named after their Cloudinary format
+function mimeTypeFor(asset: StoredAsset): string {
+  const recorded = asset.context?.custom?.mime_type;
+  if (recorded) return recorded;
+  if (asset.resource_type !== "image" || !asset.format) {
+    return "application/octet-stream";
+  }
+  if (asset.format === "pdf") return "application/pdf";
+  if (asset.format === "jpg") return "image/jpeg";
+  return `image/${asset.format}`;
+}
+
+/**
+ * Reads up to `limit` bytes from the start of a stream without consuming
+ * the rest. The stream is paused once enough bytes are buffered.
+ */
+function readHead(stream: Readable, limit: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let length = 0;
+
+    const finish = () => {
+      stream.off("data", onData);
+      stream.off("end", finish);
+      stream.off("error", reject);
+      stream.pause();
+      resolve(Buffer.concat(chunks));
+    };
+    const onData = (chunk: Buffer) => {
+      chunks.push(chunk);
+      length += chunk.length;
+      if (length >= limit) finish();
+    };
+
+    stream.on("data", onData);
+    stream.once("end", finish);
+    stream.once("error", reject);
+  });
+}
+
+class UploadService {
+  /**
+   * Streams the files of a multipart request to Cloudinary as authenticated
+   * assets. Each file's real type is sniffed from its content before it is
+   * uploaded, and files that exceed the size limits are discarded.
+   * An optional `sessionId` field, sent before the files, appends the
+   * uploaded files to that session and counts its existing files towards
+   * the limits.
+   * @throws HttpError 415 for non-multipart requests, 400 for malformed ones
+   * or when `sessionId` follows the files.
+   */
+  async uploadFromRequest(
+    req: IncomingMessage,
+    userId: string
+  ): Promise<UploadResult> {
+    let parser: busboy.Busboy;
+    try {
+      parser = busboy({
+        headers: req.headers,
+        limits: {
+          fileSize: UPLOAD_MAX_FILE_BYTES,
+          files: MAX_FILES_PER_SESSION,
+          fields: 10,
+        },
+      });
+    } catch {
+      throw new HttpError(415, "Expected a multipart/form-data request.");
+    }
+
+    const files: CloudinaryFileDetail[] = [];
+    const errors: UploadError[] = [];
+    const uploads: Promise<void>[] = [];
+    let session: SessionDocument | null = null;
+    let sessionRequested = false;
+    let sessionReady: Promise<void> = Promise.resolve();
+    let fatalError: unknown = null;
+    let totalBytes = 0;
+    let fileCount = 0;
+
+    parser.on("field", (name, value) => {
+      if (name !== "sessionId" || sessionRequested) return;
+      sessionRequested = true;
+      // Files already received were checked against no session's limits
+      if (fileCount > 0) {
+        fatalError ??= new HttpError(
+          400,
+          "The sessionId field must come before the files."
+        );
+        return;
+      }
+      sessionReady = sessionService
+        .getOwnedSession(value, userId)
+        .then((owned) => {
+          if (ACTIVE_STATUSES.includes(owned.status)) {
+            throw new HttpError(
+              409,
+              "Files cannot be added while the session is processing."
+            );
+          }
+          session = owned;
+          totalBytes = owned.files.reduce((sum, file) => sum + file.size, 0);
+        })
+        .catch((error) => {
+          fatalError = error;
+        });
+    });
+
+    parser.on("file", (_name, stream, info) => {
+      const fileName = info.filename || `file-${fileCount + 1}`;
+      const index = fileCount++;
+      uploads.push(
+        this.handleFile(stream, fileName, info.mimeType, userId, {
+          beforeUpload: async () => {
+            await sessionReady;
+            if (fatalError) return "skip";
+            const existing = session?.files.length ?? 0;
+            if (existing + index + 1 > MAX_FILES_PER_SESSION) {
+              return `A session can hold at most ${MAX_FILES_PER_SESSION} files.`;
+            }
+            return null;
+          },
+          reserveBytes: (bytes) => {
+            if (totalBytes + bytes > UPLOAD_MAX_SESSION_BYTES) return false;
+            totalBytes += bytes;
+            return true;
+          },
+          releaseBytes: (bytes) => {
+            totalBytes -= bytes;
+          },
+        })
+          .then((file) => {
+            if (file) files[index] = file;
+          })
+          .catch((error: unknown) => {
+            errors.push({
+              fileName,
+              message: error instanceof Error ? error.message : String(error),
+            });
+          })
+      );
+    });
+
+    parser.on("filesLimit", () => {
+      errors.push({
+        fileName: "*",
+        message: `At most ${MAX_FILES_PER_SESSION} files can be uploaded at once.`,
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      parser.once("close", resolve);
+      parser.once("error", (error) =>
+        reject(
+          new HttpError(
+            400,
+            `Malformed multipart body: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          )
+        )
+      );
+      req.pipe(parser);
+    });
+
+    await sessionReady;
+    await Promise.all(uploads);
+
+    const uploaded = files.filter(Boolean);
+    if (fatalError) {
+      await Promise.all(uploaded.map((file) => this.destroy(file)));
+      throw fatalError;
+    }
+
+    const result: UploadResult = { files: uploaded, errors };
+    const owned = session as SessionDocument | null;
+    if (owned && uploaded.length > 0) {
+      // The session may have changed while the files were uploading
+      try {
+        result.session = await sessionService.appendFiles(
+          owned.id,
+          userId,
+          uploaded,
+          {
+            maxFiles: MAX_FILES_PER_SESSION,
+            maxBytes: UPLOAD_MAX_SESSION_BYTES,
+          }
+        );
+      } catch (error) {
+        await Promise.all(uploaded.map((file) => this.destroy(file)));
+        throw error;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Builds session files from the client's file list, taking each file's
+   * size, type and URL from its stored upload instead of the request.
+   * Files already in `existing` keep their recorded details.
+   * @throws HttpError 400 when a file has no upload or the files exceed the
+   * session byte limit.
+   */
+  async resolveFiles(
+    files: SessionFileInput[],
+    existing: CloudinaryFileDetail[] = []
+  ): Promise<CloudinaryFileDetail[]> {
+    const known = new Map(existing.map((file) => [fileKey(file), file]));
+    const resolved = await Promise.all(
+      files.map(async (file): Promise<CloudinaryFileDetail> => {
+        const stored = known.get(fileKey(file));
+        if (stored) return { ...stored, fileName: file.fileName };
+        if (!file.publicId) {
+          throw new HttpError(
+            400,
+            `${file.fileName} must reference an upload by publicId.`
+          );
+        }
+
+        const asset = await this.findAsset(file.publicId, file.resourceType);
+        if (!asset) {
+          throw new HttpError(400, `Upload ${file.publicId} was not found.`);
+        }
+        return {
+          fileName: file.fileName,
+          cloudStorageUrl: asset.secure_url,
+          mimeType: mimeTypeFor(asset),
+          size: asset.bytes,
+          publicId: file.publicId,
+          resourceType: asset.resource_type,
+        };
+      })
+    );
+
+    const totalBytes = resolved.reduce((sum, file) => sum + file.size, 0);
+    if (totalBytes > UPLOAD_MAX_SESSION_BYTES) {
+      throw new HttpError(
+        400,
+        `Session upload limit of ${UPLOAD_MAX_SESSION_BYTES} bytes exceeded.`
+      );
+    }
+    return resolved;
+  }
+
+  /**
+   * Looks up an authenticated asset. Without a known resource type, image
+   * is tried before raw.
+   * @returns The asset, or null when no upload has this public id.
+   */
+  private async findAsset(
+    publicId: string,
+    resourceType?: ResourceType
+  ): Promise<StoredAsset | null> {
+    for (const type of resourceType ? [resourceType] : ["image", "raw"]) {
+      try {
+        return (await cloudinary.api.resource(publicId, {
+          type: "authenticated",
+          resource_type: type,
+        })) as StoredAsset;
+      } catch (error) {
+        const status = (error as { error?: { http_code?: number } }).error
+          ?.http_code;
+        if (status !== 404) throw error;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Sniffs, validates and uploads a single file stream. The stream is always
+   * drained so the rest of the request can be parsed. Bytes reserved for a
+   * file that is rejected are released for the others.
+   * @returns The stored file, or null when the file was skipped.
+   */
+  private async handleFile(
+    stream: Readable,
+    fileName: string,
+    declaredMimeType: string,
+    userId: string,
+    checks: {
+      beforeUpload: () => Promise<string | null>;
+      reserveBytes: (bytes: number) => boolean;
+      releaseBytes: (bytes: number) => void;
+    }
+  ): Promise<CloudinaryFileDetail | null> {
+    const drain = () => stream.resume();
+    let reserved = 0;
+    const reserveBytes = (bytes: number) => {
+      if (!checks.reserveBytes(bytes)) return false;
+      reserved += bytes;
+      return true;
+    };
+    const releaseBytes = () => {
+      checks.releaseBytes(reserved);
+      reserved = 0;
+    };
+
+    try {
+      const head = await readHead(stream, SNIFF_BYTES);
+
+      const rejection = await checks.beforeUpload();
+      if (rejection === "skip") return null;
+      if (rejection) throw new Error(rejection);
+
+      let mimeType: string;
+      try {
+        ({ mimeType } = extractorRegistry.resolve(head, {
+          fileName,
+          mimeType: declaredMimeType,
+          cloudStorageUrl: "",
+          size: 0,
+        }));
+      } catch {
+        throw new Error(
+          `Unsupported file type${
+            declaredMimeType ? ` (declared ${declaredMimeType})` : ""
+          }.`
+        );
+      }
+
+      const resourceType = resourceTypeFor(mimeType);
+      const upload = await this.uploadStream(
+        stream,
+        head,
+        userId,
+        { resourceType, mimeType },
+        { reserveBytes, releaseBytes }
+      );
+
+      if (upload.rejection) {
+        await this.destroy({
+          publicId: upload.response.public_id,
+          resourceType,
+        });
+        throw new Error(upload.rejection);
+      }
+
+      console.log(
+        `📤 Uploaded ${fileName} (${mimeType}, ${upload.response.bytes} bytes)`
+      );
+      return {
+        fileName,
+        cloudStorageUrl: upload.response.secure_url,
+        mimeType,
+        size: upload.response.bytes,
+        publicId: upload.response.public_id,
+        resourceType,
+      };
+    } catch (error) {
+      releaseBytes();
+      throw error;
+    } finally {
+      drain();
+    }
+  }
+
+  /**
+   * Pipes the buffered head and the rest of the stream to Cloudinary, with
+   * the sniffed type recorded on the asset for later lookups. Once
+   * a size limit is hit, forwarding stops, the file's reserved bytes are
+   * released right away, and the partial upload is returned with a
+   * rejection reason so the caller can delete it.
+   */
+  private uploadStream(
+    stream: Readable,
+    head: Buffer,
+    userId: string,
+    {
+      resourceType,
+      mimeType,
+    }: { resourceType: ResourceType; mimeType: string },
+    {
+      reserveBytes,
+      releaseBytes,
+    }: { reserveBytes: (bytes: number) => boolean; releaseBytes: () => void }
+  ): Promise<{ response: UploadApiResponse; rejection: string | null }> {
+    return new Promise((resolve, reject) => {
+      let rejection: string | null = null;
+      const body = new PassThrough();
+
+      const destination = cloudinary.uploader.upload_stream(
+        {
+          folder: userUploadFolder(userId),
+          type: "authenticated",
+          resource_type: resourceType,
+          context: { mime_type: mimeType },
+        },
+        (error, response) => {
+          if (error || !response) {
+            reject(
+              new Error(`Upload failed: ${error?.message || "no response"}`)
+            );
+            return;
+          }
+          resolve({ response, rejection });
+        }
+      );
+      body.pipe(destination);
+
+      const stopForwarding = (reason: string) => {
+        if (rejection) return;
+        rejection = reason;
+        releaseBytes();
+        stream.off("data", forward);
+        body.end();
+      };
+      const forward = (chunk: Buffer) => {
+        if (!reserveBytes(chunk.length)) {
+          stopForwarding(
+            `Session upload limit of ${UPLOAD_MAX_SESSION_BYTES} bytes exceeded.`
+          );
+          return;
+        }
+        body.write(chunk);
+      };
+
+      // Busboy marks a file truncated once it exceeds the fileSize limit
+      const finish = () => {
+        if ((stream as Readable & { truncated?: boolean }).truncated) {
+          stopForwarding(
+            `File exceeds the ${UPLOAD_MAX_FILE_BYTES} byte upload limit.`
+          );
+        } else if (!rejection) {
+          body.end();
+        }
+      };
+
+      stream.once("error", (error) => {
+        body.destroy(error);
+        reject(error);
+      });
+
+      forward(head);
+      if (rejection) return;
+      // Small files may have ended while their head was being read
+      if (stream.readableEnded) {
+        finish();
+        return;
+      }
+      stream.once("end", finish);
+      stream.on("data", forward);
+      stream.resume();
+    });
+  }
+
+  private async destroy(
+    file: Pick<CloudinaryFileDetail, "publicId" | "resourceType">
+  ): Promise<void> {
+    if (!file.publicId) return;
+    try {
+      await cloudinary.uploader.destroy(file.publicId, {
+        type: "authenticated",
+        resource_type: file.resourceType || "image",
+        invalidate: true,
+      });
+    } catch (error) {
+      console.warn(`⚠️ Failed to delete asset ${file.publicId}:`, error);
+    }
+  }
+}
+
+export const uploadService = new UploadService();
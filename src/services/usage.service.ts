@@ -0,0 +1,189 @@
+// summaid-backend/src/services/usage.service.ts
+import { pool } from "../config/database";
+import {
+  QUOTA_CHARACTERS_PER_MONTH,
+  QUOTA_PAGES_PER_MONTH,
+  QUOTA_SESSIONS_PER_DAY,
+  QUOTA_TOKENS_PER_MONTH,
+} from "../config/env";
+import { HttpError } from "../utils/error.utils";
+
+export type QuotaName = "sessions" | "pages" | "characters" | "tokens";
+
+// Quotas checked before a session is processed; other LLM calls only need
+// tokens left
+export const PROCESSING_QUOTAS: QuotaName[] = [
+  "sessions",
+  "pages",
+  "characters",
+  "tokens",
+];
+
+// Text extracted without OCR counts one page per this many characters
+const CHARACTERS_PER_PAGE = 3000;
+
+const QUOTA_LIMITS: Record<QuotaName, number> = {
+  sessions: QUOTA_SESSIONS_PER_DAY,
+  pages: QUOTA_PAGES_PER_MONTH,
+  characters: QUOTA_CHARACTERS_PER_MONTH,
+  tokens: QUOTA_TOKENS_PER_MONTH,
+};
+
+const QUOTA_UNITS: Record<QuotaName, string> = {
+  sessions: "sessions",
+  pages: "pages",
+  characters: "characters",
+  tokens: "AI tokens",
+};
+
+const QUOTA_DESCRIPTIONS: Record<QuotaName, string> = {
+  sessions: "sessions processed today",
+  pages: "pages processed this month",
+  characters: "characters processed this month",
+  tokens: "AI tokens used this month",
+};
+
+export interface UsageRecord {
+  sessionId?: string;
+  /** What consumed the resources, e.g. "processing" or "chat" */
+  source: string;
+  sessions?: number;
+  pages?: number;
+  characters?: number;
+  tokens?: number;
+}
+
+export interface QuotaUsage {
+  used: number;
+  limit: number;
+  remaining: number;
+  /** When the quota's period ends and it resets */
+  resetsAt: string;
+}
+
+export type UsageReport = Record<QuotaName, QuotaUsage>;
+
+/** Resources a piece of work is expected to consume, per quota */
+export type UsageEstimate = Partial<Record<QuotaName, number>>;
+
+/**
+ * Pages a file counts as: its OCR'd pages, or its length in
+ * CHARACTERS_PER_PAGE pages when that is more.
+ */
+export function countPages(characters: number, ocrPages: number = 0): number {
+  return Math.max(ocrPages, Math.ceil(characters / CHARACTERS_PER_PAGE));
+}
+
+/**
+ * Start of the current quota periods and of the next ones, in UTC.
+ */
+function quotaPeriods(now: Date = new Date()) {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  const day = now.getUTCDate();
+  return {
+    dayStart: new Date(Date.UTC(year, month, day)),
+    dayEnd: new Date(Date.UTC(year, month, day + 1)),
+    monthStart: new Date(Date.UTC(year, month, 1)),
+    monthEnd: new Date(Date.UTC(year, month + 1, 1)),
+  };
+}
+
+class UsageService {
+  /**
+   * Records resources a user consumed. Failures are logged rather than
+   * thrown, so accounting never breaks the work it accounts for.
+   */
+  async record(userId: string, usage: UsageRecord): Promise<void> {
+    const {
+      sessionId = null,
+      source,
+      sessions = 0,
+      pages = 0,
+      characters = 0,
+      tokens = 0,
+    } = usage;
+    if (!sessions && !pages && !characters && !tokens) return;
+
+    try {
+      await pool.query(
+        `INSERT INTO usage_events
+           (user_id, session_id, source, sessions, pages, characters, tokens)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [userId, sessionId, source, sessions, pages, characters, tokens]
+      );
+    } catch (error) {
+      console.warn(
+        `⚠️ Failed to record ${source} usage of user ${userId}:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  /**
+   * Reports a user's consumption against each quota: sessions for the
+   * current day, everything else for the current month.
+   */
+  async getUsage(userId: string): Promise<UsageReport> {
+    const { dayStart, dayEnd, monthStart, monthEnd } = quotaPeriods();
+
+    const { rows } = await pool.query(
+      `SELECT
+         COALESCE(SUM(sessions) FILTER (WHERE created_at >= $2), 0) AS sessions,
+         COALESCE(SUM(pages), 0) AS pages,
+         COALESCE(SUM(characters), 0) AS characters,
+         COALESCE(SUM(tokens), 0) AS tokens
+       FROM usage_events
+       WHERE user_id = $1 AND created_at >= $3`,
+      [userId, dayStart, monthStart]
+    );
+
+    const report = {} as UsageReport;
+    for (const quota of Object.keys(QUOTA_LIMITS) as QuotaName[]) {
+      // Postgres sums are returned as strings
+      const used = Number(rows[0]?.[quota] ?? 0);
+      const limit = QUOTA_LIMITS[quota];
+      report[quota] = {
+        used,
+        limit,
+        remaining: Math.max(limit - used, 0),
+        resetsAt: (quota === "sessions" ? dayEnd : monthEnd).toISOString(),
+      };
+    }
+    return report;
+  }
+
+  /**
+   * Checks that a user has quota left for work expected to consume
+   * `estimate`, or at least some of each given quota when there is no
+   * estimate for it. Usage is recorded as work completes, so concurrent
+   * requests can overshoot a quota slightly; the rate limiter keeps that
+   * small.
+   * @throws HttpError 429 naming the first quota that does not suffice.
+   */
+  async assertWithinQuotas(
+    userId: string,
+    quotas: QuotaName[],
+    estimate: UsageEstimate = {}
+  ): Promise<void> {
+    const usage = await this.getUsage(userId);
+    for (const quota of quotas) {
+      const { used, limit, remaining, resetsAt } = usage[quota];
+      const needed = Math.ceil(estimate[quota] ?? 0);
+      if (used >= limit) {
+        throw new HttpError(
+          429,
+          `Quota exceeded: ${used} of ${limit} ${QUOTA_DESCRIPTIONS[quota]}. It resets at ${resetsAt}.`
+        );
+      }
+      if (needed > remaining) {
+        throw new HttpError(
+          429,
+          `Quota exceeded: this needs about ${needed} ${QUOTA_UNITS[quota]}, but only ${remaining} remain (${used} of ${limit} ${QUOTA_DESCRIPTIONS[quota]}). It resets at ${resetsAt}.`
+        );
+      }
+    }
+  }
+}
+
+export const usageService = new UsageService();
@@ -1,12 +1,105 @@
+export type FlashcardDifficulty = "easy" | "medium" | "hard";
+
 export interface Flashcard {
+  id?: string; // Id of the card's review record, once saved
+  question: string;
+  answer: string;
+  difficulty?: FlashcardDifficulty;
+  tags?: string[];
+  sourceFile?: string;
+}
+
+// SM-2 scheduling state of a flashcard
+export interface FlashcardReviewState {
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number; // Consecutive successful reviews
+  lapses: number; // Failed reviews over the card's lifetime
+  due_at: string;
+  last_reviewed_at: string | null;
+}
+
+// A session's flashcard as stored for review
+export interface FlashcardRecord extends FlashcardReviewState {
+  id: string;
+  session_id: string;
+  user_id: string;
+  position: number; // Order within the session's deck
   question: string;
   answer: string;
+  difficulty: FlashcardDifficulty | null;
+  tags: string[] | null;
+  source_file: string | null;
+  created_at?: string;
+}
+
+export type QuizQuestionType =
+  | "multiple_choice"
+  | "true_false"
+  | "short_answer";
+
+export interface QuizQuestion {
+  id: string;
+  type: QuizQuestionType;
+  question: string;
+  options?: string[]; // multiple_choice only: the answer and its distractors
+  answer: string; // The correct option, "true"/"false", or a model answer
+  explanation: string;
+  sourceFile?: string;
+  sourceExcerpt?: string; // Passage of the content the answer rests on
+  sources?: ChatCitation[]; // Indexed chunks the question is grounded in
+}
+
+// A submitted answer to one quiz question, as graded
+export interface QuizAnswerResult {
+  questionId: string;
+  type: QuizQuestionType;
+  question: string;
+  answer: string | null; // Null when the question was skipped
+  correctAnswer: string;
+  correct: boolean;
+  score: number; // 0..1; short answers may earn partial credit
+  feedback?: string;
+  explanation: string;
+}
+
+export interface QuizAttemptRecord {
+  id: string;
+  session_id: string;
+  user_id: string;
+  answers: QuizAnswerResult[];
+  score: number;
+  max_score: number;
+  percentage: number;
+  grading_model: string | null; // Model that graded the short answers
+  created_at?: string;
 }
 
+export type LLMProvider = "openai" | "gemini";
+
+export type ExportFormat = "apkg" | "csv" | "md" | "pdf";
+
 export interface DocumentProcessingPreferences {
   generateFlashcards: boolean;
   generateStudyGuide: boolean;
   generateSummary: boolean;
+  generateQuiz?: boolean;
+  flashcardCount?: number;
+  quizQuestionCount?: number;
+  llmProvider?: LLMProvider;
+  ocrLanguages?: OCRLanguages;
+}
+
+// Tesseract language codes (e.g. ["eng", "fra"]), or "auto" to pick them
+// from the script detected on each image
+export type OCRLanguages = string[] | "auto";
+
+// "<provider>:<model>" that produced each generated artifact
+export interface ArtifactModels {
+  summary?: string;
+  flashcards?: string;
+  studyGuide?: string;
+  quiz?: string;
 }
 
 export interface CloudinaryFileDetail {
@@ -15,18 +108,97 @@ export interface CloudinaryFileDetail {
   mimeType: string;
   size: number;
   publicId?: string;
+  resourceType?: "image" | "raw"; // Cloudinary resource type, for signing
+}
+
+// A session file as clients send it; its type and size are read from the
+// stored upload rather than trusted
+export type SessionFileInput = Omit<CloudinaryFileDetail, "mimeType" | "size">;
+
+export interface ChatCitation {
+  fileName: string;
+  chunkIndex: number;
+}
+
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+  citations?: ChatCitation[];
+  model?: string;
+  created_at: string;
+}
+
+export interface DocumentChunkRecord {
+  session_id: string;
+  file_name: string;
+  // fileKey of the source file; null for chunks indexed before it was stored
+  file_key: string | null;
+  chunk_index: number;
+  content: string;
+  embedding: number[] | string;
+}
+
+// Extracted text cached per file so unchanged files are not re-extracted
+export interface FileTextRecord {
+  session_id: string;
+  file_key: string; // publicId, or cloudStorageUrl when there is none
+  file_name: string;
+  text: string;
+  updated_at: string;
+  edited_at?: string | null; // Set when a user corrected the text
+  indexed_at?: string | null; // Null until the text is indexed for chat
+  ocr_metadata?: FileOCRMetadata | null; // Only fetched for OCR review
+}
+
+// Pixel coordinates in the original image, upright per its EXIF orientation
+export interface OCRBoundingBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface OCRWord {
+  text: string;
+  confidence: number; // 0..100
+  bbox: OCRBoundingBox;
+}
+
+export interface OCRLine {
+  text: string;
+  confidence: number;
+  bbox: OCRBoundingBox;
+  words: OCRWord[];
+}
+
+// OCR output for one image, or one scanned page of a PDF
+export interface OCRPageMetadata {
+  pageNumber?: number; // 1-based, PDFs only
+  confidence: number;
+  languages: string;
+  preprocessing?: string;
+  lines: OCRLine[];
+}
+
+export interface FileOCRMetadata {
+  fileName: string;
+  confidence: number; // Mean word confidence across pages
+  pages: OCRPageMetadata[];
 }
 
 export interface SessionDocument {
   id: string;
   user_id: string;
+  title?: string | null;
   files: CloudinaryFileDetail[];
   preferences: DocumentProcessingPreferences;
   status: string;
   summary?: string | null;
   flashcards?: Flashcard[];
   study_guide?: string | null;
-  chat_history?: any[];
+  quiz?: QuizQuestion[];
+  artifact_models?: ArtifactModels | null;
+  chat_history?: ChatMessage[];
   error_message?: string;
   created_at?: string;
   processed_at?: string;
@@ -34,4 +206,44 @@ export interface SessionDocument {
   total_chunks?: number;
   successful_files?: string[];
   processing_errors?: string[] | null;
+  // Legacy OCR metadata keyed by file key; now kept with each file's text
+  ocr_metadata?: Record<string, FileOCRMetadata> | null;
 }
+
+export type ProcessingStage =
+  | "queued"
+  | "started"
+  | "downloading"
+  | "extracting"
+  | "ocr"
+  | "chunking"
+  | "indexing"
+  | "generating"
+  | "streaming"
+  | "completed"
+  | "failed";
+
+export type GenerationStep =
+  | "condensing"
+  | "summary"
+  | "flashcards"
+  | "studyGuide"
+  | "quiz";
+
+export type GeneratedArtifact = Exclude<GenerationStep, "condensing">;
+
+export interface ProcessingEvent {
+  sessionId: string;
+  stage: ProcessingStage;
+  message: string;
+  fileIndex?: number; // 1-based
+  fileCount?: number;
+  fileName?: string;
+  step?: GenerationStep;
+  progress?: number; // 0..1 within the current stage
+  delta?: string; // newly generated text, on streaming
+  status?: string; // session status, on completed/failed
+  timestamp: string;
+}
+
+export type ProcessingUpdate = Omit<ProcessingEvent, "sessionId" | "timestamp">;
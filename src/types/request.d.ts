@@ -1,6 +1,9 @@
 // summaid-backend/src/types/request.d.ts
 import { Request } from "express";
 
+// Staff roles, set in a user's app_metadata.role; other users have none
+export type UserRole = "admin" | "support";
+
 // Define the expected structure of a decoded Supabase JWT payload
 export interface SupabaseDecodedToken {
   aud: string; // audience
@@ -12,6 +15,7 @@ export interface SupabaseDecodedToken {
   phone?: string;
   app_metadata: {
     provider?: string;
+    role?: UserRole; // Only settable with the service role key
     [key: string]: any;
   };
   user_metadata: {
@@ -0,0 +1,270 @@
+import { createHash } from "crypto";
+import JSZip from "jszip";
+import initSqlJs, { type SqlJsStatic } from "sql.js";
+import type { Flashcard } from "../types";
+
+// Anki's legacy collection format (schema 11), which every Anki version
+// and AnkiDroid can import
+const SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const FIELD_SEPARATOR = "\x1f";
+const CARD_CSS = `.card {
+  font-family: arial;
+  font-size: 20px;
+  text-align: center;
+  color: black;
+  background-color: white;
+}
+.source {
+  font-size: 14px;
+  color: #777;
+}`;
+
+const DEFAULT_DECK_CONFIG = {
+  id: 1,
+  name: "Default",
+  mod: 0,
+  usn: 0,
+  maxTaken: 60,
+  autoplay: true,
+  timer: 0,
+  replayq: true,
+  dyn: false,
+  new: {
+    bury: true,
+    delays: [1, 10],
+    initialFactor: 2500,
+    ints: [1, 4, 7],
+    order: 1,
+    perDay: 20,
+    separate: true,
+  },
+  lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 },
+  rev: {
+    bury: true,
+    ease4: 1.3,
+    fuzz: 0.05,
+    ivlFct: 1,
+    maxIvl: 36500,
+    minSpace: 1,
+    perDay: 100,
+  },
+};
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+function loadSqlJs(): Promise<SqlJsStatic> {
+  if (!sqlJs) sqlJs = initSqlJs();
+  return sqlJs;
+}
+
+/**
+ * Derives a stable positive id from a string, so exporting the same session
+ * again updates the deck and notes already imported into Anki instead of
+ * duplicating them.
+ */
+function stableId(value: string): number {
+  // 48 bits keep the id a safe JS integer
+  return createHash("sha1").update(value).digest().readUIntBE(0, 6) || 1;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/\n/g, "<br>");
+}
+
+/** Checksum Anki uses to find duplicate notes */
+function fieldChecksum(field: string): number {
+  const plain = field.replace(/<[^>]*>/g, "");
+  const hash = createHash("sha1").update(plain).digest("hex");
+  return parseInt(hash.slice(0, 8), 16);
+}
+
+function cardTags(card: Flashcard): string {
+  const tags = [
+    ...(card.tags || []),
+    ...(card.difficulty ? [`difficulty::${card.difficulty}`] : []),
+  ].map((tag) => tag.trim().replace(/\s+/g, "_"));
+  return tags.length ? ` ${tags.join(" ")} ` : "";
+}
+
+/**
+ * Builds an Anki package (.apkg) holding one deck of basic cards, with the
+ * card's source file shown on the back.
+ * @param deckKey Stable identifier of the deck, e.g. the session id.
+ */
+export async function buildAnkiPackage(
+  deckName: string,
+  deckKey: string,
+  cards: Flashcard[]
+): Promise<Buffer> {
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database();
+
+  try {
+    db.exec(SCHEMA);
+
+    const now = Date.now();
+    const nowSeconds = Math.floor(now / 1000);
+    const deckId = stableId(`deck:${deckKey}`);
+    const modelId = stableId(`model:${deckKey}`);
+
+    const model = {
+      id: modelId,
+      name: "SummAid Basic",
+      type: 0,
+      mod: nowSeconds,
+      usn: -1,
+      sortf: 0,
+      did: deckId,
+      tmpls: [
+        {
+          name: "Card 1",
+          ord: 0,
+          qfmt: "{{Question}}",
+          afmt: '{{FrontSide}}<hr id="answer">{{Answer}}{{#Source}}<div class="source">{{Source}}</div>{{/Source}}',
+          did: null,
+          bqfmt: "",
+          bafmt: "",
+        },
+      ],
+      flds: ["Question", "Answer", "Source"].map((name, ord) => ({
+        name,
+        ord,
+        sticky: false,
+        rtl: false,
+        font: "Arial",
+        size: 20,
+        media: [],
+      })),
+      css: CARD_CSS,
+      latexPre:
+        "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n",
+      latexPost: "\\end{document}",
+      tags: [],
+      vers: [],
+      req: [[0, "all", [0]]],
+    };
+
+    const deck = (id: number, name: string) => ({
+      id,
+      name,
+      desc: "",
+      mod: nowSeconds,
+      usn: -1,
+      collapsed: false,
+      newToday: [0, 0],
+      revToday: [0, 0],
+      lrnToday: [0, 0],
+      timeToday: [0, 0],
+      dyn: 0,
+      conf: 1,
+      extendNew: 10,
+      extendRev: 50,
+    });
+
+    const conf = {
+      activeDecks: [1],
+      curDeck: 1,
+      newSpread: 0,
+      collapseTime: 1200,
+      timeLim: 0,
+      estTimes: true,
+      dueCounts: true,
+      curModel: modelId,
+      nextPos: cards.length + 1,
+      sortType: "noteFld",
+      sortBackwards: false,
+      addToCur: true,
+    };
+
+    db.run("INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)", [
+      nowSeconds,
+      now,
+      now,
+      JSON.stringify(conf),
+      JSON.stringify({ [modelId]: model }),
+      JSON.stringify({
+        1: deck(1, "Default"),
+        [deckId]: deck(deckId, deckName),
+      }),
+      JSON.stringify({ 1: DEFAULT_DECK_CONFIG }),
+      "{}",
+    ]);
+
+    const insertNote = db.prepare(
+      "INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, '')"
+    );
+    const insertCard = db.prepare(
+      "INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, '')"
+    );
+
+    const usedIds = new Set<number>();
+    const uniqueId = (value: string) => {
+      let id = stableId(value);
+      while (usedIds.has(id)) id++;
+      usedIds.add(id);
+      return id;
+    };
+
+    cards.forEach((card, position) => {
+      // Saved cards keep their id across regenerations; others fall back to
+      // their question
+      const key = card.id || card.question;
+      const question = escapeHtml(card.question);
+      const fields = [
+        question,
+        escapeHtml(card.answer),
+        escapeHtml(card.sourceFile || ""),
+      ];
+      const noteId = uniqueId(`note:${deckKey}:${key}`);
+
+      insertNote.run([
+        noteId,
+        createHash("sha1")
+          .update(`${deckKey}:${key}`)
+          .digest("hex")
+          .slice(0, 10),
+        modelId,
+        nowSeconds,
+        cardTags(card),
+        fields.join(FIELD_SEPARATOR),
+        question,
+        fieldChecksum(question),
+      ]);
+      insertCard.run([
+        uniqueId(`card:${deckKey}:${key}`),
+        noteId,
+        deckId,
+        nowSeconds,
+        position + 1,
+      ]);
+    });
+    insertNote.free();
+    insertCard.free();
+
+    const zip = new JSZip();
+    zip.file("collection.anki2", db.export());
+    zip.file("media", "{}");
+    return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+  } finally {
+    db.close();
+  }
+}
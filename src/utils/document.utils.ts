@@ -1,171 +1,526 @@
-import axios from "axios";
-import { ocrService } from "../services/ocr.service";
-import * as mammoth from "mammoth";
-import * as pdfParse from "pdf-parse";
 import type {
   CloudinaryFileDetail,
+  ArtifactModels,
   DocumentProcessingPreferences,
   Flashcard,
+  GenerationStep,
+  LLMProvider,
+  QuizQuestion,
 } from "../types";
-import { getSignedCloudinaryUrl } from "../config/cloudinary";
-import { ChatOpenAI } from "@langchain/openai";
-import { OPENAI_API_KEY } from "../config/env";
+import { getSignedCloudinaryUrl, isUserAsset } from "../config/cloudinary";
+import { RecursiveCharacterTextSplitter } from "langchain/text_splitter";
+import { llmService, type LLMResponse } from "../services/llm.service";
+import { extractorRegistry, type ExtractionContext } from "../extractors";
+import { DownloadError, safeDownload } from "./download.utils";
+import { parseFlashcards, resolveFlashcardCount } from "./flashcard.utils";
+import { parseQuiz, resolveQuizQuestionCount } from "./quiz.utils";
 
-const chatModel = new ChatOpenAI({
-  openAIApiKey: OPENAI_API_KEY,
-  modelName: "gpt-4o",
-  temperature: 0.7,
-});
+// Sized for the smallest supported context (gpt-4o, 128k tokens), leaving
+// headroom for the prompt and output
+const MAX_INPUT_TOKENS = 90000;
+// Size of each piece summarized in the map step of map-reduce
+const MAP_CHUNK_TOKENS = 12000;
+const MAP_CONCURRENCY = 4;
+const MAX_REDUCE_DEPTH = 5;
+const FLASHCARD_ATTEMPTS = 3;
+const QUIZ_ATTEMPTS = 3;
+// Response length assumed per generated artifact when estimating cost
+const ESTIMATED_RESPONSE_TOKENS = 3000;
 
+/**
+ * Downloads a session file. Files with a `publicId` are fetched through a
+ * short-lived signed Cloudinary URL; otherwise `cloudStorageUrl` must pass
+ * the download policy in `safeDownload`. Transient failures are retried once.
+ * @throws DownloadError with a code identifying the failure.
+ */
 export async function downloadFile(
-  fileDetail: CloudinaryFileDetail
+  fileDetail: CloudinaryFileDetail,
+  userId: string
 ): Promise<Buffer> {
-  const { fileName, publicId, mimeType, cloudStorageUrl } = fileDetail;
-  let downloadUrl = cloudStorageUrl;
+  const { publicId, resourceType, cloudStorageUrl } = fileDetail;
 
-  if (publicId) {
-    try {
-      downloadUrl = getSignedCloudinaryUrl(publicId);
-    } catch (err) {
-      if (!downloadUrl) throw new Error("No valid download URL available.");
+  if (!publicId && !cloudStorageUrl) {
+    throw new DownloadError(
+      "INVALID_URL",
+      "Missing both publicId and cloudStorageUrl."
+    );
+  }
+  // Checked again here since sessions saved before validation may hold
+  // ids of other users' assets
+  if (publicId && !isUserAsset(publicId, userId)) {
+    throw new DownloadError(
+      "NOT_OWNED",
+      `Asset ${publicId} does not belong to this user.`
+    );
+  }
+
+  const downloadUrl = publicId
+    ? getSignedCloudinaryUrl(publicId, resourceType)
+    : cloudStorageUrl;
+
+  try {
+    return await safeDownload(downloadUrl);
+  } catch (error) {
+    if (!(error instanceof DownloadError) || !error.retryable) throw error;
+    console.warn(
+      `⚠️ Retrying download of ${fileDetail.fileName}: ${error.message}`
+    );
+    return safeDownload(downloadUrl);
+  }
+}
+
+/**
+ * Extracts text from a downloaded file using the extractor registered for
+ * its (sniffed or declared) MIME type.
+ */
+export async function extractTextFromFile(
+  fileBuffer: Buffer,
+  fileDetail: CloudinaryFileDetail,
+  context: ExtractionContext = {}
+): Promise<string> {
+  const { extractor, mimeType } = extractorRegistry.resolve(
+    fileBuffer,
+    fileDetail
+  );
+
+  const text = await extractor.extract(
+    fileBuffer,
+    { ...fileDetail, mimeType },
+    context
+  );
+
+  if (!text.trim())
+    throw new Error(`No text content extracted from ${fileDetail.fileName}`);
+  return text;
+}
+
+/**
+ * Rough token estimate (~4 characters per token for English text).
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Rough tokens needed to generate `artifactCount` artifacts from text of
+ * `characters` length: condensing reads text over the prompt budget once
+ * and writes notes, then each artifact reads the (condensed) text and
+ * writes a response. Repair attempts are not included.
+ */
+export function estimateGenerationTokens(
+  characters: number,
+  artifactCount: number
+): number {
+  if (artifactCount === 0) return 0;
+  const textTokens = Math.ceil(characters / 4);
+  const condensing =
+    textTokens > MAX_INPUT_TOKENS ? textTokens + MAX_INPUT_TOKENS : 0;
+  const prompt = Math.min(textTokens, MAX_INPUT_TOKENS);
+  return condensing + artifactCount * (prompt + ESTIMATED_RESPONSE_TOKENS);
+}
+
+/**
+ * Maps items with at most `limit` calls in flight, keeping result order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const workers = Array.from(
+    { length: Math.min(limit, items.length) },
+    async () => {
+      while (next < items.length) {
+        const index = next++;
+        results[index] = await fn(items[index], index);
+      }
     }
-  } else if (!downloadUrl) {
-    throw new Error("Missing both publicId and cloudStorageUrl.");
+  );
+
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * Condenses text that is too large for a single prompt using map-reduce:
+ * each chunk is summarized into detailed notes, and the partial notes are
+ * combined (recursively, if they are still too large) until they fit
+ * within the token budget. A chunk whose notes fail is kept as is, and
+ * text still too large after MAX_REDUCE_DEPTH levels is truncated; both
+ * are reported in `errors`.
+ * @param onTokens Called with the tokens used by each model call.
+ * @throws the first failure when no chunk of a level could be condensed.
+ */
+export async function condenseText(
+  text: string,
+  provider?: LLMProvider,
+  onTokens?: (tokens: number) => void,
+  depth: number = 0
+): Promise<{ text: string; errors: string[] }> {
+  if (estimateTokens(text) <= MAX_INPUT_TOKENS) return { text, errors: [] };
+  if (depth >= MAX_REDUCE_DEPTH) {
+    console.warn(
+      `⚠️ Map-reduce did not converge after ${depth} levels, truncating input`
+    );
+    const truncated = text.slice(0, MAX_INPUT_TOKENS * 4);
+    return {
+      text: truncated,
+      errors: [
+        `The content was too long to condense; only the first ${truncated.length} of ${text.length} characters were used.`,
+      ],
+    };
   }
 
-  const strategies = [
-    () => axios.get(downloadUrl, { responseType: "arraybuffer" }),
-    () =>
-      axios.get(downloadUrl, { responseType: "arraybuffer", timeout: 90000 }),
-  ];
+  const splitter = new RecursiveCharacterTextSplitter({
+    chunkSize: MAP_CHUNK_TOKENS * 4,
+    chunkOverlap: 800,
+  });
+  const chunks = await splitter.splitText(text);
 
-  for (let i = 0; i < strategies.length; i++) {
-    try {
-      const response = await strategies[i]();
-      if (response.data) {
-        const size = response.data.length || response.data.byteLength;
-        if (size === 0)
-          throw new Error(`Downloaded file is empty: ${fileName}`);
-        return Buffer.from(response.data);
+  console.log(
+    `🗂️ Map-reduce level ${depth + 1}: condensing ${chunks.length} chunks`
+  );
+
+  const failures: unknown[] = [];
+  const partials = await mapWithConcurrency(
+    chunks,
+    MAP_CONCURRENCY,
+    async (chunk, i) => {
+      try {
+        const res = await llmService.invoke(
+          `This is part ${i + 1} of ${chunks.length} of a larger document. ` +
+            `Write detailed study notes for it, keeping all key concepts, ` +
+            `definitions, facts, formulas and examples:\n\n${chunk}`,
+          { provider }
+        );
+        onTokens?.(res.tokens);
+        return res.content;
+      } catch (error) {
+        console.warn(`⚠️ Failed to condense part ${i + 1}:`, error);
+        failures.push(error);
+        return chunk;
       }
-    } catch (error) {
-      if (i === strategies.length - 1) throw error;
     }
+  );
+  if (failures.length === chunks.length) throw failures[0];
+
+  const errors: string[] = [];
+  if (failures.length > 0) {
+    const message =
+      failures[0] instanceof Error ? failures[0].message : "Unknown error";
+    errors.push(
+      `Failed to condense ${failures.length} of ${chunks.length} parts, used their text as is: ${message}`
+    );
   }
 
-  throw new Error(`All download strategies failed for ${fileName}`);
+  const condensed = await condenseText(
+    partials.join("\n\n"),
+    provider,
+    onTokens,
+    depth + 1
+  );
+  return { text: condensed.text, errors: [...errors, ...condensed.errors] };
 }
 
-export async function extractTextFromFile(
-  fileBuffer: Buffer,
-  fileDetail: CloudinaryFileDetail
-): Promise<string> {
-  const { fileName, mimeType } = fileDetail;
-  let text = "";
+/**
+ * Generates flashcards as JSON and validates them against the Flashcard
+ * shape. Invalid output is sent back to the model with the validation
+ * problems so it can repair it, up to FLASHCARD_ATTEMPTS times.
+ * @returns The cards and the model that produced them.
+ */
+export async function generateFlashcards(
+  sourceText: string,
+  requestedCount?: number,
+  provider?: LLMProvider,
+  onTokens?: (tokens: number) => void
+): Promise<{ flashcards: Flashcard[]; model: string }> {
+  const count = resolveFlashcardCount(requestedCount);
 
-  if (mimeType.startsWith("image/")) {
-    const result = await ocrService.performOCRWithRetry(
-      fileBuffer,
-      mimeType,
-      3
+  const basePrompt = `From the content below, generate exactly ${count} flashcards.
+Respond with a JSON object of the form:
+{"flashcards": [{"question": string, "answer": string, "difficulty": "easy" | "medium" | "hard", "tags": string[], "sourceFile": string}]}
+"difficulty", "tags" and "sourceFile" are optional. Set "sourceFile" to the file name from the "=== file name ===" header the card is based on.
+
+Content:
+${sourceText}`;
+
+  let prompt = basePrompt;
+  let bestEffort: { flashcards: Flashcard[]; model: string } | null = null;
+
+  for (let attempt = 1; attempt <= FLASHCARD_ATTEMPTS; attempt++) {
+    const res = await llmService.invoke(prompt, { provider, json: true });
+    onTokens?.(res.tokens);
+    const raw = res.content;
+    const { flashcards, problems } = parseFlashcards(raw);
+
+    if (flashcards.length > 0 && problems.length === 0) {
+      return { flashcards: flashcards.slice(0, count), model: res.model };
+    }
+
+    if (flashcards.length > (bestEffort?.flashcards.length ?? 0)) {
+      bestEffort = { flashcards, model: res.model };
+    }
+
+    console.warn(
+      `⚠️ Flashcard output invalid on attempt ${attempt}/${FLASHCARD_ATTEMPTS}: ${problems.join(
+        " "
+      )}`
     );
-    text = result.text;
-  } else if (mimeType === "application/pdf") {
-    try {
-      const result = await pdfParse.default(fileBuffer);
-      text = result.text || "";
-    } catch {
-      const result = await ocrService.performOCRWithRetry(
-        fileBuffer,
-        mimeType,
-        2
-      );
-      text = result.text || "";
+
+    prompt = `${basePrompt}
+
+Your previous response was invalid:
+${raw}
+
+Problems:
+${problems.map((problem) => `- ${problem}`).join("\n")}
+
+Return the corrected JSON object only.`;
+  }
+
+  if (bestEffort) {
+    return {
+      flashcards: bestEffort.flashcards.slice(0, count),
+      model: bestEffort.model,
+    };
+  }
+
+  throw new Error(
+    `Flashcard generation produced no valid cards after ${FLASHCARD_ATTEMPTS} attempts.`
+  );
+}
+
+/**
+ * Generates a quiz of multiple-choice, true/false and short-answer
+ * questions as JSON, each with an explanation and the excerpt of the
+ * content it is based on. Invalid output is sent back to the model for
+ * repair, up to QUIZ_ATTEMPTS times.
+ * @returns The questions and the model that produced them.
+ */
+export async function generateQuiz(
+  sourceText: string,
+  requestedCount?: number,
+  provider?: LLMProvider,
+  onTokens?: (tokens: number) => void
+): Promise<{ questions: QuizQuestion[]; model: string }> {
+  const count = resolveQuizQuestionCount(requestedCount);
+
+  const basePrompt = `From the content below, write a quiz of exactly ${count} questions that tests understanding, not just recall.
+Mix the question types: mostly "multiple_choice", plus some "true_false" and "short_answer".
+Respond with a JSON object of the form:
+{"questions": [{"type": "multiple_choice" | "true_false" | "short_answer", "question": string, "options": string[], "answer": string, "explanation": string, "sourceFile": string, "sourceExcerpt": string}]}
+- "multiple_choice": 4 "options", the correct one plus plausible distractors based on common misconceptions; "answer" repeats the correct option exactly.
+- "true_false": omit "options"; "answer" is "true" or "false".
+- "short_answer": omit "options"; "answer" is a model answer of one or two sentences.
+- "explanation" says why the answer is right, using only the content.
+- "sourceExcerpt" quotes the sentence or two of the content the answer rests on.
+- "sourceFile" is the file name from the "=== file name ===" header the question is based on.
+
+Content:
+${sourceText}`;
+
+  let prompt = basePrompt;
+  let bestEffort: { questions: QuizQuestion[]; model: string } | null = null;
+
+  for (let attempt = 1; attempt <= QUIZ_ATTEMPTS; attempt++) {
+    const res = await llmService.invoke(prompt, { provider, json: true });
+    onTokens?.(res.tokens);
+    const raw = res.content;
+    const { questions, problems } = parseQuiz(raw);
+
+    if (questions.length > 0 && problems.length === 0) {
+      return { questions: questions.slice(0, count), model: res.model };
     }
-  } else if (
-    mimeType ===
-      "application/vnd.openxmlformats-officedocument.wordprocessingml.document" ||
-    mimeType === "application/msword"
-  ) {
-    const result = await mammoth.extractRawText({
-      arrayBuffer: fileBuffer.buffer.slice(
-        fileBuffer.byteOffset,
-        fileBuffer.byteOffset + fileBuffer.byteLength
-      ),
-    });
-    text = result.value || "";
-  } else if (mimeType.startsWith("text/")) {
-    text = fileBuffer.toString("utf8");
-  } else {
-    try {
-      text = fileBuffer.toString("utf8");
-    } catch {
-      const result = await ocrService.performOCRWithRetry(
-        fileBuffer,
-        mimeType,
-        2
-      );
-      text = result.text || "";
+
+    if (questions.length > (bestEffort?.questions.length ?? 0)) {
+      bestEffort = { questions, model: res.model };
     }
+
+    console.warn(
+      `⚠️ Quiz output invalid on attempt ${attempt}/${QUIZ_ATTEMPTS}: ${problems.join(
+        " "
+      )}`
+    );
+
+    prompt = `${basePrompt}
+
+Your previous response was invalid:
+${raw}
+
+Problems:
+${problems.map((problem) => `- ${problem}`).join("\n")}
+
+Return the corrected JSON object only.`;
   }
 
-  if (!text.trim())
-    throw new Error(`No text content extracted from ${fileName}`);
-  return text;
+  if (bestEffort) {
+    return {
+      questions: bestEffort.questions.slice(0, count),
+      model: bestEffort.model,
+    };
+  }
+
+  throw new Error(
+    `Quiz generation produced no valid questions after ${QUIZ_ATTEMPTS} attempts.`
+  );
+}
+
+export interface GenerationHooks {
+  /** Called before each generation step starts */
+  onStep?: (step: GenerationStep) => void;
+  /**
+   * Enables streaming for the summary and study guide. Called with each
+   * new piece of text and the full text generated so far.
+   */
+  onDelta?: (step: StreamedStep, delta: string, textSoFar: string) => void;
+  /** Called when a streamed step finishes, with its complete text */
+  onStepComplete?: (step: StreamedStep, text: string) => void;
+  /** Called when a streamed step fails; its partial text is abandoned */
+  onStepFailed?: (step: StreamedStep) => void;
+  /** Called with the tokens used by each model call */
+  onTokens?: (tokens: number) => void;
+}
+
+export type StreamedStep = Extract<GenerationStep, "summary" | "studyGuide">;
+
+/**
+ * Runs a prompt, streaming the response through the hooks when streaming
+ * was requested and invoking the model once otherwise.
+ */
+async function completeText(
+  prompt: string,
+  step: StreamedStep,
+  hooks: GenerationHooks,
+  provider?: LLMProvider
+): Promise<LLMResponse> {
+  const { onDelta } = hooks;
+  if (!onDelta) {
+    const res = await llmService.invoke(prompt, { provider });
+    hooks.onTokens?.(res.tokens);
+    return res;
+  }
+
+  let text = "";
+  let res: LLMResponse;
+  try {
+    res = await llmService.stream(
+      prompt,
+      (delta) => {
+        text += delta;
+        onDelta(step, delta, text);
+      },
+      { provider }
+    );
+  } catch (error) {
+    hooks.onStepFailed?.(step);
+    throw error;
+  }
+  hooks.onTokens?.(res.tokens);
+  hooks.onStepComplete?.(step, res.content);
+  return res;
 }
 
+/**
+ * Generates the study materials selected in the preferences, using the
+ * provider in `preferences.llmProvider` (or the configured default).
+ */
 export async function generateContentWithLLM(
   fullText: string,
-  preferences: DocumentProcessingPreferences
+  preferences: DocumentProcessingPreferences,
+  hooks: GenerationHooks = {}
 ): Promise<{
   summary: string | null;
   flashcards: Flashcard[];
   studyGuide: string | null;
+  quiz: QuizQuestion[];
+  models: ArtifactModels;
+  errors: string[];
 }> {
+  const { onStep, onTokens } = hooks;
+  const provider = preferences.llmProvider;
+  const models: ArtifactModels = {};
+
+  // Single-shot when the text fits the budget, map-reduce otherwise
+  if (estimateTokens(fullText) > MAX_INPUT_TOKENS) onStep?.("condensing");
+  const { text: sourceText, errors } = await condenseText(
+    fullText,
+    provider,
+    onTokens
+  );
+
   let summary: string | null = null;
   let flashcards: Flashcard[] = [];
   let studyGuide: string | null = null;
+  let quiz: QuizQuestion[] = [];
 
   if (preferences.generateSummary) {
+    onStep?.("summary");
     try {
-      const res = await chatModel.invoke(
-        `Summarize this content:\n\n${fullText}`
+      const res = await completeText(
+        `Summarize this content:\n\n${sourceText}`,
+        "summary",
+        hooks,
+        provider
       );
-      summary = res.content as string;
+      summary = res.content;
+      models.summary = res.model;
     } catch (e) {
       summary = "Error generating summary.";
     }
   }
 
   if (preferences.generateFlashcards) {
+    onStep?.("flashcards");
     try {
-      const res = await chatModel.invoke(
-        `From this content, generate 5-10 flashcards as JSON:\n\n${fullText}`
+      const res = await generateFlashcards(
+        sourceText,
+        preferences.flashcardCount,
+        provider,
+        onTokens
       );
-      try {
-        flashcards = JSON.parse(res.content as string);
-      } catch {
-        flashcards = [
-          { question: "Parse failed", answer: res.content as string },
-        ];
-      }
-    } catch {
-      flashcards = [
-        { question: "Error generating flashcards", answer: "Please retry." },
-      ];
+      flashcards = res.flashcards;
+      models.flashcards = res.model;
+    } catch (e) {
+      const message = e instanceof Error ? e.message : "Unknown error";
+      errors.push(`Failed to generate flashcards: ${message}`);
     }
   }
 
   if (preferences.generateStudyGuide) {
+    onStep?.("studyGuide");
     try {
-      const res = await chatModel.invoke(
-        `Create a study guide from this content:\n\n${fullText}`
+      const res = await completeText(
+        `Create a study guide from this content:\n\n${sourceText}`,
+        "studyGuide",
+        hooks,
+        provider
       );
-      studyGuide = res.content as string;
+      studyGuide = res.content;
+      models.studyGuide = res.model;
     } catch {
       studyGuide = "Error generating study guide.";
     }
   }
 
-  return { summary, flashcards, studyGuide };
+  if (preferences.generateQuiz) {
+    onStep?.("quiz");
+    try {
+      const res = await generateQuiz(
+        sourceText,
+        preferences.quizQuestionCount,
+        provider,
+        onTokens
+      );
+      quiz = res.questions;
+      models.quiz = res.model;
+    } catch (e) {
+      const message = e instanceof Error ? e.message : "Unknown error";
+      errors.push(`Failed to generate quiz: ${message}`);
+    }
+  }
+
+  return { summary, flashcards, studyGuide, quiz, models, errors };
 }
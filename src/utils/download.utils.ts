@@ -0,0 +1,373 @@
+import * as dns from "dns";
+import * as https from "https";
+import type { IncomingMessage } from "http";
+import { BlockList, isIP, type LookupFunction } from "net";
+import {
+  CLOUDINARY_CLOUD_NAME,
+  DOWNLOAD_ALLOWED_HOSTS,
+  DOWNLOAD_MAX_BYTES,
+  DOWNLOAD_TIMEOUT_MS,
+  SUPABASE_URL,
+} from "../config/env";
+
+const MAX_REDIRECTS = 3;
+const SUPABASE_STORAGE_PATH = "/storage/v1/object/";
+
+export type DownloadErrorCode =
+  | "INVALID_URL"
+  | "NOT_OWNED"
+  | "INSECURE_PROTOCOL"
+  | "HOST_NOT_ALLOWED"
+  | "DNS_FAILED"
+  | "BLOCKED_ADDRESS"
+  | "TOO_MANY_REDIRECTS"
+  | "HTTP_STATUS"
+  | "TOO_LARGE"
+  | "EMPTY_RESPONSE"
+  | "TIMEOUT"
+  | "NETWORK_ERROR";
+
+/**
+ * Error raised by `safeDownload`. `code` identifies the failure so callers
+ * can tell policy rejections from transient network problems.
+ */
+export class DownloadError extends Error {
+  constructor(
+    public code: DownloadErrorCode,
+    message: string,
+    public retryable = false
+  ) {
+    super(`[${code}] ${message}`);
+    this.name = "DownloadError";
+  }
+}
+
+interface AllowedHost {
+  hostname: string;
+  /** Matches subdomains as well as the host itself */
+  includeSubdomains?: boolean;
+  /** Restricts downloads to paths under this prefix */
+  pathPrefix?: string;
+}
+
+function buildAllowedHosts(): AllowedHost[] {
+  const hosts: AllowedHost[] = [];
+
+  // Cloudinary delivery URLs start with the cloud name; other clouds'
+  // assets are not ours to fetch
+  if (CLOUDINARY_CLOUD_NAME) {
+    hosts.push({
+      hostname: "res.cloudinary.com",
+      pathPrefix: `/${CLOUDINARY_CLOUD_NAME}/`,
+    });
+  }
+
+  if (SUPABASE_URL) {
+    try {
+      hosts.push({
+        hostname: new URL(SUPABASE_URL).hostname,
+        pathPrefix: SUPABASE_STORAGE_PATH,
+      });
+    } catch {
+      console.warn(
+        "⚠️ SUPABASE_URL is not a valid URL; storage downloads disabled"
+      );
+    }
+  }
+
+  for (const hostname of DOWNLOAD_ALLOWED_HOSTS) {
+    hosts.push({ hostname: hostname.toLowerCase() });
+  }
+  return hosts;
+}
+
+const ALLOWED_HOSTS = buildAllowedHosts();
+
+// Loopback, private, link-local, CGNAT, multicast and reserved ranges
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["100::", 64],
+  ["2001:db8::", 32],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Whether an IP address is loopback, private or otherwise not publicly
+ * routable. IPv4-mapped IPv6 addresses are checked as IPv4.
+ */
+export function isBlockedAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return BLOCKED_ADDRESSES.check(mapped[1], "ipv4");
+
+  const family = isIP(address);
+  if (family === 0) return true;
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Validates a URL against the download policy: HTTPS only, no IP literals
+ * and an allowlisted host (and path, for Cloudinary and Supabase storage).
+ * @throws DownloadError describing the violated rule.
+ */
+export function assertAllowedDownloadUrl(rawUrl: string): URL {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new DownloadError("INVALID_URL", "Download URL is not a valid URL.");
+  }
+
+  if (url.protocol !== "https:") {
+    throw new DownloadError(
+      "INSECURE_PROTOCOL",
+      `Only HTTPS downloads are allowed (got ${url.protocol}).`
+    );
+  }
+  if (url.username || url.password) {
+    throw new DownloadError(
+      "INVALID_URL",
+      "Download URLs must not contain credentials."
+    );
+  }
+
+  const hostname = url.hostname.toLowerCase();
+  if (isIP(hostname.replace(/^\[|\]$/g, ""))) {
+    throw new DownloadError(
+      "HOST_NOT_ALLOWED",
+      "Download URLs must use a host name, not an IP address."
+    );
+  }
+
+  const allowed = ALLOWED_HOSTS.some(
+    (host) =>
+      (hostname === host.hostname ||
+        (host.includeSubdomains && hostname.endsWith(`.${host.hostname}`))) &&
+      (!host.pathPrefix || url.pathname.startsWith(host.pathPrefix))
+  );
+  if (!allowed) {
+    throw new DownloadError(
+      "HOST_NOT_ALLOWED",
+      `Downloads from ${hostname} are not allowed.`
+    );
+  }
+  return url;
+}
+
+/**
+ * Whether a URL passes the download policy.
+ */
+export function isAllowedDownloadUrl(rawUrl: string): boolean {
+  try {
+    assertAllowedDownloadUrl(rawUrl);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Resolves host names and rejects blocked addresses before connecting, so
+// the socket uses exactly the addresses that were checked (no DNS rebinding)
+const safeLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error || addresses.length === 0) {
+      callback(
+        new DownloadError(
+          "DNS_FAILED",
+          `Could not resolve ${hostname}: ${error?.message || "no addresses"}`,
+          true
+        ),
+        "",
+        0
+      );
+      return;
+    }
+
+    const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+    if (blocked) {
+      callback(
+        new DownloadError(
+          "BLOCKED_ADDRESS",
+          `${hostname} resolves to a non-public address (${blocked.address}).`
+        ),
+        "",
+        0
+      );
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+const agent = new https.Agent({
+  keepAlive: true,
+  minVersion: "TLSv1.2",
+  rejectUnauthorized: true,
+  lookup: safeLookup,
+});
+
+function request(url: URL): Promise<IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const req = https.get(
+      url,
+      { agent, timeout: DOWNLOAD_TIMEOUT_MS },
+      resolve
+    );
+    req.on("timeout", () =>
+      req.destroy(
+        new DownloadError(
+          "TIMEOUT",
+          `No response from ${url.hostname} within ${DOWNLOAD_TIMEOUT_MS}ms.`,
+          true
+        )
+      )
+    );
+    req.on("error", (error) =>
+      reject(
+        error instanceof DownloadError
+          ? error
+          : new DownloadError(
+              "NETWORK_ERROR",
+              `Request to ${url.hostname} failed: ${error.message}`,
+              true
+            )
+      )
+    );
+  });
+}
+
+/**
+ * Reads a response body, aborting as soon as it exceeds `maxBytes`.
+ */
+function readBody(
+  response: IncomingMessage,
+  url: URL,
+  maxBytes: number
+): Promise<Buffer> {
+  const declared = Number(response.headers["content-length"]);
+  if (declared > maxBytes) {
+    response.destroy();
+    return Promise.reject(
+      new DownloadError(
+        "TOO_LARGE",
+        `File is ${declared} bytes; the limit is ${maxBytes} bytes.`
+      )
+    );
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let length = 0;
+
+    response.setTimeout(DOWNLOAD_TIMEOUT_MS, () =>
+      response.destroy(
+        new DownloadError(
+          "TIMEOUT",
+          `Download from ${url.hostname} stalled.`,
+          true
+        )
+      )
+    );
+    response.on("data", (chunk: Buffer) => {
+      length += chunk.length;
+      if (length > maxBytes) {
+        response.destroy(
+          new DownloadError(
+            "TOO_LARGE",
+            `File exceeds the ${maxBytes} byte limit.`
+          )
+        );
+        return;
+      }
+      chunks.push(chunk);
+    });
+    response.on("end", () => resolve(Buffer.concat(chunks)));
+    response.on("error", (error) =>
+      reject(
+        error instanceof DownloadError
+          ? error
+          : new DownloadError(
+              "NETWORK_ERROR",
+              `Download from ${url.hostname} failed: ${error.message}`,
+              true
+            )
+      )
+    );
+  });
+}
+
+/**
+ * Downloads a file from an allowlisted HTTPS host. Every redirect target is
+ * checked against the same policy, resolved addresses must be public, and
+ * the body is capped while streaming.
+ * @throws DownloadError with a code identifying the failure.
+ */
+export async function safeDownload(
+  rawUrl: string,
+  maxBytes: number = DOWNLOAD_MAX_BYTES
+): Promise<Buffer> {
+  let url = assertAllowedDownloadUrl(rawUrl);
+
+  for (let redirects = 0; ; redirects++) {
+    const response = await request(url);
+    const status = response.statusCode || 0;
+
+    if (status >= 300 && status < 400 && response.headers.location) {
+      response.resume();
+      if (redirects >= MAX_REDIRECTS) {
+        throw new DownloadError(
+          "TOO_MANY_REDIRECTS",
+          `More than ${MAX_REDIRECTS} redirects.`
+        );
+      }
+      url = assertAllowedDownloadUrl(
+        new URL(response.headers.location, url).toString()
+      );
+      continue;
+    }
+
+    if (status < 200 || status >= 300) {
+      response.resume();
+      throw new DownloadError(
+        "HTTP_STATUS",
+        `${url.hostname} responded with HTTP ${status}.`,
+        status === 429 || status >= 500
+      );
+    }
+
+    const body = await readBody(response, url, maxBytes);
+    if (body.length === 0) {
+      throw new DownloadError("EMPTY_RESPONSE", "Downloaded file is empty.");
+    }
+    return body;
+  }
+}
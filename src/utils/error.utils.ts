@@ -0,0 +1,26 @@
+/**
+ * Error carrying an HTTP status code, thrown by services for failures that
+ * controllers should surface to the client as-is (e.g. 404, 403).
+ */
+export class HttpError extends Error {
+  constructor(public statusCode: number, message: string) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+/**
+ * Resolves the status code and message to respond with for an unknown error.
+ */
+export function toHttpError(
+  error: unknown,
+  fallbackMessage: string
+): { statusCode: number; message: string } {
+  if (error instanceof HttpError) {
+    return { statusCode: error.statusCode, message: error.message };
+  }
+  return {
+    statusCode: 500,
+    message: error instanceof Error ? error.message : fallbackMessage,
+  };
+}
@@ -0,0 +1,110 @@
+import { flashcardsToCsv, sessionToMarkdown } from "./export.utils";
+import type { SessionDocument } from "../types";
+
+/**
+ * Splits CSV output into rows of raw cells; only for rows without quoted
+ * separators.
+ */
+const rows = (csv: string) =>
+  csv
+    .replace(/^\uFEFF/, "")
+    .split("\r\n")
+    .filter(Boolean)
+    .map((row) => row.split(","));
+
+describe("flashcardsToCsv", () => {
+  it("writes a BOM, a header row and CRLF line endings", () => {
+    const csv = flashcardsToCsv([
+      {
+        question: "What is ATP?",
+        answer: "Energy currency",
+        tags: ["cell biology", "energy"],
+        difficulty: "easy",
+        sourceFile: "notes.pdf",
+      },
+    ]);
+
+    expect(csv.startsWith("\uFEFF")).toBe(true);
+    expect(csv.endsWith("\r\n")).toBe(true);
+    expect(rows(csv)).toEqual([
+      ["Question", "Answer", "Tags", "Difficulty", "Source"],
+      [
+        "What is ATP?",
+        "Energy currency",
+        "cell_biology energy",
+        "easy",
+        "notes.pdf",
+      ],
+    ]);
+  });
+
+  it("quotes cells with separators, quotes and line breaks", () => {
+    const csv = flashcardsToCsv([
+      { question: 'Define "osmosis", briefly', answer: "Water\nmoving" },
+    ]);
+
+    expect(csv).toContain('"Define ""osmosis"", briefly","Water\nmoving",,,');
+  });
+
+  it.each([
+    ["=SUM(A1:A2)", "'=SUM(A1:A2)"],
+    ["+1", "'+1"],
+    ["-1", "'-1"],
+    ["@cmd", "'@cmd"],
+    ["\tcell", "'\tcell"],
+    ["\rcell", `"'\rcell"`],
+  ])(
+    "prefixes the formula-like cell %j with an apostrophe",
+    (cell, escaped) => {
+      const csv = flashcardsToCsv([{ question: cell, answer: "a" }]);
+      expect(csv).toContain(`\r\n${escaped},a,,,\r\n`);
+    }
+  );
+
+  it("quotes a formula-like cell that also needs quoting", () => {
+    const csv = flashcardsToCsv([{ question: '=HYPERLINK("x")', answer: "a" }]);
+    expect(csv).toContain(`"'=HYPERLINK(""x"")",a`);
+  });
+
+  it("writes only the header for no cards", () => {
+    expect(flashcardsToCsv([])).toBe(
+      "\uFEFFQuestion,Answer,Tags,Difficulty,Source\r\n"
+    );
+  });
+});
+
+describe("sessionToMarkdown", () => {
+  const session = {
+    id: "s1",
+    title: "Cell\nbiology",
+    quiz: [
+      {
+        id: "q1",
+        type: "multiple_choice",
+        question: "Which organelle produces ATP?",
+        options: ["Nucleus", "Mitochondrion", "Ribosome"],
+        answer: "Mitochondrion",
+        explanation: "Mitochondria run cellular respiration.",
+      },
+    ],
+  } as SessionDocument;
+
+  it("puts the title on one heading line", () => {
+    expect(sessionToMarkdown(session).startsWith("# Cell biology\n")).toBe(
+      true
+    );
+  });
+
+  it("leaves quiz answers out by default", () => {
+    const markdown = sessionToMarkdown(session);
+
+    expect(markdown).toContain("Which organelle produces ATP?");
+    expect(markdown).toContain("Ribosome");
+    expect(markdown).not.toContain("Mitochondria run cellular respiration.");
+  });
+
+  it("includes quiz answers when asked", () => {
+    const markdown = sessionToMarkdown(session, { quizAnswers: true });
+    expect(markdown).toContain("Mitochondria run cellular respiration.");
+  });
+});
@@ -0,0 +1,298 @@
+import * as path from "path";
+import PDFDocument from "pdfkit";
+import { marked, type Token, type Tokens } from "marked";
+import type { Flashcard, SessionDocument } from "../types";
+
+const CSV_COLUMNS = ["Question", "Answer", "Tags", "Difficulty", "Source"];
+
+const PDF_MARGIN = 56;
+const PDF_BODY_SIZE = 11;
+const PDF_CODE_SIZE = 9;
+const PDF_INDENT = 16;
+const PDF_HEADING_SIZES = [20, 16, 13, 12, 11, 11];
+
+// Embedded DejaVu fonts cover Greek, Cyrillic, arrows and math symbols,
+// which the standard PDF fonts cannot show
+const FONT_DIR = path.join(
+  path.dirname(require.resolve("dejavu-fonts-ttf/package.json")),
+  "ttf"
+);
+const PDF_FONTS = {
+  regular: "DejaVuSans.ttf",
+  bold: "DejaVuSans-Bold.ttf",
+  italic: "DejaVuSans-Oblique.ttf",
+  boldItalic: "DejaVuSans-BoldOblique.ttf",
+  code: "DejaVuSansMono.ttf",
+};
+type PdfFont = keyof typeof PDF_FONTS;
+
+/**
+ * Quotes a CSV cell when it contains a separator, quote or line break.
+ * Cells that spreadsheet apps would run as formulas are prefixed with an
+ * apostrophe.
+ */
+function csvCell(value: string): string {
+  const cell = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+/**
+ * Puts text on one line, since a Markdown heading ends at the first line
+ * break.
+ */
+function headingText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Serializes flashcards as CSV with a header row. Tags are space-separated,
+ * as Anki's CSV import expects; the byte order mark lets spreadsheet apps
+ * detect UTF-8.
+ */
+export function flashcardsToCsv(cards: Flashcard[]): string {
+  const rows = cards.map((card) =>
+    [
+      card.question,
+      card.answer,
+      (card.tags || []).map((tag) => tag.replace(/\s+/g, "_")).join(" "),
+      card.difficulty || "",
+      card.sourceFile || "",
+    ].map(csvCell)
+  );
+  return (
+    "\uFEFF" +
+    [CSV_COLUMNS, ...rows].map((row) => row.join(",")).join("\r\n") +
+    "\r\n"
+  );
+}
+
+/**
+ * Combines a session's generated materials into one Markdown document.
+ * Sections that were not generated are left out.
+ * @param options.quizAnswers Includes the quiz's answers and explanations;
+ * only once the user has taken the quiz, so they cannot be read off first.
+ */
+export function sessionToMarkdown(
+  session: SessionDocument,
+  { quizAnswers = false }: { quizAnswers?: boolean } = {}
+): string {
+  const sections = [`# ${headingText(session.title || "") || "Study session"}`];
+
+  if (session.summary) sections.push(`## Summary\n\n${session.summary}`);
+  if (session.study_guide) {
+    sections.push(`## Study guide\n\n${session.study_guide}`);
+  }
+
+  const cards = session.flashcards || [];
+  if (cards.length > 0) {
+    const entries = cards.map((card, i) => {
+      const source = card.sourceFile ? `\n\n*Source: ${card.sourceFile}*` : "";
+      return `### ${i + 1}. ${headingText(card.question)}\n\n${
+        card.answer
+      }${source}`;
+    });
+    sections.push(`## Flashcards\n\n${entries.join("\n\n")}`);
+  }
+
+  const quiz = session.quiz || [];
+  if (quiz.length > 0) {
+    const entries = quiz.map((question, i) => {
+      const options = question.options
+        ? `\n\n${question.options.map((option) => `- ${option}`).join("\n")}`
+        : "";
+      const heading = `### ${i + 1}. ${headingText(question.question)}`;
+      if (!quizAnswers) return `${heading}${options}`;
+      return `${heading}${options}\n\n**Answer:** ${question.answer}\n\n${
+        question.explanation
+      }`;
+    });
+    sections.push(`## Quiz\n\n${entries.join("\n\n")}`);
+  }
+
+  return `${sections.join("\n\n")}\n`;
+}
+
+interface TextSegment {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+}
+
+/**
+ * Flattens inline Markdown tokens into runs of uniformly styled text.
+ */
+function inlineSegments(
+  tokens: Token[] | undefined,
+  style: Omit<TextSegment, "text"> = {}
+): TextSegment[] {
+  const segments: TextSegment[] = [];
+  for (const token of tokens || []) {
+    switch (token.type) {
+      case "strong":
+        segments.push(
+          ...inlineSegments(token.tokens, { ...style, bold: true })
+        );
+        break;
+      case "em":
+        segments.push(
+          ...inlineSegments(token.tokens, { ...style, italic: true })
+        );
+        break;
+      case "codespan":
+        segments.push({ ...style, text: token.text, code: true });
+        break;
+      case "br":
+        segments.push({ ...style, text: "\n" });
+        break;
+      default:
+        if ("tokens" in token && token.tokens) {
+          segments.push(...inlineSegments(token.tokens, style));
+        } else if ("text" in token) {
+          segments.push({ ...style, text: token.text });
+        }
+    }
+  }
+  return segments;
+}
+
+function fontFor({ bold, italic, code }: Omit<TextSegment, "text">): PdfFont {
+  if (code) return "code";
+  if (bold && italic) return "boldItalic";
+  if (bold) return "bold";
+  if (italic) return "italic";
+  return "regular";
+}
+
+/**
+ * Renders Markdown into a PDF. Headings,
+ * emphasis, lists, code, quotes and tables keep their structure; other
+ * elements are rendered as plain text.
+ */
+export function renderMarkdownPdf(
+  title: string,
+  markdown: string
+): Promise<Buffer> {
+  const doc = new PDFDocument({
+    margin: PDF_MARGIN,
+    info: { Title: title },
+  });
+  for (const [name, file] of Object.entries(PDF_FONTS)) {
+    doc.registerFont(name, path.join(FONT_DIR, file));
+  }
+  const chunks: Buffer[] = [];
+  doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const write = (
+    segments: TextSegment[],
+    level: number,
+    size: number = PDF_BODY_SIZE
+  ) => {
+    const parts = segments.filter((segment) => segment.text);
+    if (parts.length === 0) return;
+    doc.x = PDF_MARGIN + level * PDF_INDENT;
+    parts.forEach((segment, i) => {
+      doc
+        .font(fontFor(segment))
+        .fontSize(size)
+        .text(segment.text, { continued: i < parts.length - 1 });
+    });
+  };
+
+  const renderBlocks = (tokens: Token[], level: number) => {
+    for (const token of tokens) {
+      switch (token.type) {
+        case "space":
+          break;
+        case "heading": {
+          const size = PDF_HEADING_SIZES[token.depth - 1];
+          doc.moveDown(0.6);
+          write(inlineSegments(token.tokens, { bold: true }), level, size);
+          doc.moveDown(0.3);
+          break;
+        }
+        case "paragraph":
+        case "text":
+          write(
+            token.tokens
+              ? inlineSegments(token.tokens)
+              : [{ text: token.text }],
+            level
+          );
+          if (token.type === "paragraph") doc.moveDown(0.5);
+          break;
+        case "list":
+          renderList(token as Tokens.List, level);
+          doc.moveDown(0.5);
+          break;
+        case "blockquote":
+          renderBlocks(token.tokens || [], level + 1);
+          break;
+        case "code":
+          write([{ text: token.text, code: true }], level + 1, PDF_CODE_SIZE);
+          doc.moveDown(0.5);
+          break;
+        case "table": {
+          const table = token as Tokens.Table;
+          const row = (cells: Tokens.TableCell[], bold: boolean) =>
+            cells.flatMap((cell, i) => [
+              ...(i > 0 ? [{ text: "  |  " }] : []),
+              ...inlineSegments(cell.tokens, { bold }),
+            ]);
+          write(row(table.header, true), level);
+          for (const cells of table.rows) write(row(cells, false), level);
+          doc.moveDown(0.5);
+          break;
+        }
+        case "hr": {
+          const y = doc.y + 4;
+          doc
+            .moveTo(PDF_MARGIN, y)
+            .lineTo(doc.page.width - PDF_MARGIN, y)
+            .stroke("#999999");
+          doc.moveDown();
+          break;
+        }
+        default:
+          if ("text" in token && token.text) {
+            write([{ text: token.text }], level);
+          }
+      }
+    }
+  };
+
+  const renderList = (list: Tokens.List, level: number) => {
+    list.items.forEach((item, i) => {
+      const marker = list.ordered ? `${Number(list.start || 1) + i}. ` : "• ";
+      let blocks = item.tokens;
+      const [first] = blocks;
+      if (first && (first.type === "text" || first.type === "paragraph")) {
+        write(
+          [{ text: marker }, ...inlineSegments(first.tokens || [first])],
+          level
+        );
+        blocks = blocks.slice(1);
+      } else {
+        write([{ text: marker }], level);
+      }
+      // Nested lists continue the outer list without a gap
+      for (const block of blocks) {
+        if (block.type === "list") renderList(block as Tokens.List, level + 1);
+        else renderBlocks([block], level + 1);
+      }
+    });
+  };
+
+  doc
+    .font("bold")
+    .fontSize(PDF_HEADING_SIZES[0] + 4)
+    .text(title);
+  doc.moveDown();
+  renderBlocks(marked.lexer(markdown), 0);
+  doc.end();
+  return done;
+}
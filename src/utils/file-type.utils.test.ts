@@ -0,0 +1,100 @@
+import {
+  detectMimeType,
+  DOCX_MIME_TYPE,
+  looksLikeText,
+  PPTX_MIME_TYPE,
+  XLSX_MIME_TYPE,
+} from "./file-type.utils";
+
+function bmp(dibHeaderSize: number): Buffer {
+  const buffer = Buffer.alloc(64);
+  buffer.write("BM", 0, "latin1");
+  buffer.writeUInt32LE(buffer.length, 2);
+  buffer.writeUInt32LE(54, 10);
+  buffer.writeUInt32LE(dibHeaderSize, 14);
+  return buffer;
+}
+
+function zip(entryName: string): Buffer {
+  return Buffer.concat([
+    Buffer.from([0x50, 0x4b, 0x03, 0x04]),
+    Buffer.alloc(26),
+    Buffer.from(entryName),
+  ]);
+}
+
+describe("detectMimeType", () => {
+  it.each([
+    ["application/pdf", Buffer.from("%PDF-1.7\n")],
+    [
+      "image/png",
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0]),
+    ],
+    ["image/jpeg", Buffer.from([0xff, 0xd8, 0xff, 0xe0])],
+    ["image/gif", Buffer.from("GIF89a")],
+    ["image/tiff", Buffer.from([0x49, 0x49, 0x2a, 0x00])],
+    ["image/tiff", Buffer.from([0x4d, 0x4d, 0x00, 0x2a])],
+    ["image/webp", Buffer.from("RIFF\x00\x00\x00\x00WEBPVP8 ")],
+  ])("detects %s", (mimeType, buffer) => {
+    expect(detectMimeType(buffer)).toBe(mimeType);
+  });
+
+  it.each([12, 40, 52, 56, 108, 124])(
+    "detects a BMP with a %i-byte DIB header",
+    (size) => {
+      expect(detectMimeType(bmp(size))).toBe("image/bmp");
+    }
+  );
+
+  it("does not take text starting with BM for a BMP", () => {
+    const text = Buffer.from("BM25 ranking notes\nTerm frequency matters.\n");
+    expect(detectMimeType(text)).toBeNull();
+    expect(looksLikeText(text)).toBe(true);
+  });
+
+  it("rejects a BMP with an unknown DIB header size", () => {
+    expect(detectMimeType(bmp(7))).toBeNull();
+  });
+
+  it("requires RIFF before WEBP", () => {
+    expect(detectMimeType(Buffer.from("XXXX\x00\x00\x00\x00WEBP"))).toBeNull();
+  });
+
+  it.each([
+    [DOCX_MIME_TYPE, "word/document.xml"],
+    [PPTX_MIME_TYPE, "ppt/presentation.xml"],
+    [XLSX_MIME_TYPE, "xl/workbook.xml"],
+    ["application/zip", "notes.txt"],
+  ])("narrows a zip to %s", (mimeType, entryName) => {
+    expect(detectMimeType(zip(entryName))).toBe(mimeType);
+  });
+
+  it("returns null for unknown or short content", () => {
+    expect(detectMimeType(Buffer.from("plain text"))).toBeNull();
+    expect(detectMimeType(Buffer.from([0x25, 0x50]))).toBeNull();
+    expect(detectMimeType(Buffer.alloc(0))).toBeNull();
+  });
+});
+
+describe("looksLikeText", () => {
+  it("accepts UTF-8 text", () => {
+    expect(looksLikeText(Buffer.from("Résumé — naïve café\r\n\tdone"))).toBe(
+      true
+    );
+  });
+
+  it("accepts a multi-byte character cut at the sample end", () => {
+    const text = Buffer.from("a".repeat(8191) + "é");
+    expect(looksLikeText(text)).toBe(true);
+  });
+
+  it("rejects empty, binary and invalid UTF-8 content", () => {
+    expect(looksLikeText(Buffer.alloc(0))).toBe(false);
+    expect(looksLikeText(Buffer.from("text\0more"))).toBe(false);
+    expect(looksLikeText(Buffer.from([0xc3, 0x28, 0x41]))).toBe(false);
+  });
+
+  it("rejects content with many control characters", () => {
+    expect(looksLikeText(Buffer.from("ab\x01\x02cd\x03\x04"))).toBe(false);
+  });
+});
@@ -0,0 +1,100 @@
+const RIFF = [0x52, 0x49, 0x46, 0x46];
+// DIB header sizes that follow a BMP's 14-byte file header; "BM" alone also
+// starts plenty of text files
+const BMP_DIB_HEADER_SIZES = [12, 40, 52, 56, 108, 124];
+
+// Magic-byte signatures for the formats we recognise. Offsets are in bytes.
+const SIGNATURES: { mimeType: string; offset: number; bytes: number[] }[] = [
+  { mimeType: "application/pdf", offset: 0, bytes: [0x25, 0x50, 0x44, 0x46] },
+  {
+    mimeType: "image/png",
+    offset: 0,
+    bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  },
+  { mimeType: "image/jpeg", offset: 0, bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: "image/gif", offset: 0, bytes: [0x47, 0x49, 0x46, 0x38] },
+  { mimeType: "image/bmp", offset: 0, bytes: [0x42, 0x4d] },
+  { mimeType: "image/tiff", offset: 0, bytes: [0x49, 0x49, 0x2a, 0x00] },
+  { mimeType: "image/tiff", offset: 0, bytes: [0x4d, 0x4d, 0x00, 0x2a] },
+  { mimeType: "image/webp", offset: 8, bytes: [0x57, 0x45, 0x42, 0x50] },
+  {
+    mimeType: "application/x-ole-storage",
+    offset: 0,
+    bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1],
+  },
+  { mimeType: "application/zip", offset: 0, bytes: [0x50, 0x4b, 0x03, 0x04] },
+];
+
+export const DOCX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+export const PPTX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation";
+export const XLSX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+function hasBmpHeader(buffer: Buffer): boolean {
+  return (
+    buffer.length >= 18 &&
+    BMP_DIB_HEADER_SIZES.includes(buffer.readUInt32LE(14))
+  );
+}
+
+function matchesSignature(
+  buffer: Buffer,
+  offset: number,
+  bytes: number[]
+): boolean {
+  if (buffer.length < offset + bytes.length) return false;
+  return bytes.every((byte, i) => buffer[offset + i] === byte);
+}
+
+/**
+ * Narrows a zip container to the Office Open XML format it holds. Entry
+ * names are stored uncompressed, so a byte search is enough.
+ */
+function detectZipContainer(buffer: Buffer): string {
+  if (buffer.includes("word/")) return DOCX_MIME_TYPE;
+  if (buffer.includes("ppt/")) return PPTX_MIME_TYPE;
+  if (buffer.includes("xl/")) return XLSX_MIME_TYPE;
+  return "application/zip";
+}
+
+/**
+ * Heuristic for plain text: valid UTF-8 with no NUL bytes and few control
+ * characters in the first 8KB.
+ */
+export function looksLikeText(buffer: Buffer): boolean {
+  const sample = buffer.subarray(0, 8192);
+  if (sample.length === 0 || sample.includes(0)) return false;
+
+  try {
+    // Streaming mode tolerates a multi-byte character cut by the sample
+    new TextDecoder("utf-8", { fatal: true }).decode(sample, { stream: true });
+  } catch {
+    return false;
+  }
+
+  let controlChars = 0;
+  for (const byte of sample) {
+    if (byte < 0x09 || (byte > 0x0d && byte < 0x20)) controlChars++;
+  }
+  return controlChars / sample.length < 0.01;
+}
+
+/**
+ * Detects a file's MIME type from its magic bytes.
+ * @returns The detected MIME type, or null when no signature matches.
+ */
+export function detectMimeType(buffer: Buffer): string | null {
+  for (const { mimeType, offset, bytes } of SIGNATURES) {
+    if (!matchesSignature(buffer, offset, bytes)) continue;
+    if (mimeType === "image/webp" && !matchesSignature(buffer, 0, RIFF)) {
+      continue;
+    }
+    if (mimeType === "image/bmp" && !hasBmpHeader(buffer)) continue;
+    return mimeType === "application/zip"
+      ? detectZipContainer(buffer)
+      : mimeType;
+  }
+  return null;
+}
@@ -0,0 +1,126 @@
+import type { Flashcard, FlashcardDifficulty } from "../types";
+
+export const DEFAULT_FLASHCARD_COUNT = 10;
+export const MAX_FLASHCARD_COUNT = 50;
+
+const DIFFICULTIES: FlashcardDifficulty[] = ["easy", "medium", "hard"];
+
+/**
+ * Clamps a requested card count to the supported range, falling back to the
+ * default when it is missing or not a number.
+ */
+export function resolveFlashcardCount(count?: number): number {
+  if (typeof count !== "number" || !Number.isFinite(count)) {
+    return DEFAULT_FLASHCARD_COUNT;
+  }
+  return Math.min(Math.max(Math.round(count), 1), MAX_FLASHCARD_COUNT);
+}
+
+/**
+ * Strips markdown code fences and any prose around the JSON payload.
+ */
+export function extractJson(raw: string): string {
+  const fenced = raw.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const body = (fenced ? fenced[1] : raw).trim();
+
+  const start = body.search(/[[{]/);
+  const end = Math.max(body.lastIndexOf("}"), body.lastIndexOf("]"));
+  if (start === -1 || end < start) return body;
+  return body.slice(start, end + 1);
+}
+
+/**
+ * Validates a parsed value against the Flashcard shape. Accepts either an
+ * array of cards or an object with a `flashcards` array.
+ * @returns The validated cards and a list of problems found.
+ */
+export function validateFlashcards(value: unknown): {
+  flashcards: Flashcard[];
+  problems: string[];
+} {
+  const list = Array.isArray(value)
+    ? value
+    : value && typeof value === "object" && "flashcards" in value
+    ? (value as { flashcards: unknown }).flashcards
+    : null;
+
+  if (!Array.isArray(list)) {
+    return {
+      flashcards: [],
+      problems: ["Expected an object with a \"flashcards\" array."],
+    };
+  }
+
+  const flashcards: Flashcard[] = [];
+  const problems: string[] = [];
+
+  list.forEach((item, i) => {
+    if (!item || typeof item !== "object") {
+      problems.push(`Card ${i}: must be an object.`);
+      return;
+    }
+    const card = item as Record<string, unknown>;
+
+    if (typeof card.question !== "string" || !card.question.trim()) {
+      problems.push(`Card ${i}: "question" must be a non-empty string.`);
+      return;
+    }
+    if (typeof card.answer !== "string" || !card.answer.trim()) {
+      problems.push(`Card ${i}: "answer" must be a non-empty string.`);
+      return;
+    }
+
+    const flashcard: Flashcard = {
+      question: card.question.trim(),
+      answer: card.answer.trim(),
+    };
+
+    if (card.difficulty !== undefined) {
+      if (DIFFICULTIES.includes(card.difficulty as FlashcardDifficulty)) {
+        flashcard.difficulty = card.difficulty as FlashcardDifficulty;
+      } else {
+        problems.push(
+          `Card ${i}: "difficulty" must be one of ${DIFFICULTIES.join(", ")}.`
+        );
+      }
+    }
+
+    if (card.tags !== undefined) {
+      if (
+        Array.isArray(card.tags) &&
+        card.tags.every((tag) => typeof tag === "string")
+      ) {
+        flashcard.tags = card.tags as string[];
+      } else {
+        problems.push(`Card ${i}: "tags" must be an array of strings.`);
+      }
+    }
+
+    if (card.sourceFile !== undefined) {
+      if (typeof card.sourceFile === "string") {
+        flashcard.sourceFile = card.sourceFile;
+      } else {
+        problems.push(`Card ${i}: "sourceFile" must be a string.`);
+      }
+    }
+
+    flashcards.push(flashcard);
+  });
+
+  return { flashcards, problems };
+}
+
+/**
+ * Parses raw model output into validated flashcards.
+ */
+export function parseFlashcards(raw: string): {
+  flashcards: Flashcard[];
+  problems: string[];
+} {
+  try {
+    return validateFlashcards(JSON.parse(extractJson(raw)));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return { flashcards: [], problems: [`Invalid JSON: ${message}`] };
+  }
+}
@@ -0,0 +1,403 @@
+import sharp from "sharp";
+import type { OCRBoundingBox } from "../types";
+
+// Long edge that small images are upscaled to; Tesseract reads best with
+// letters at least ~20px tall
+const MIN_LONG_EDGE = 1600;
+// Long edge that large phone photos are downscaled to, bounding OCR time
+const MAX_LONG_EDGE = 4000;
+// Decoding limit, guarding against decompression bombs
+const MAX_INPUT_PIXELS = 100_000_000;
+// Width of the reduced copy used to estimate the skew
+const ANALYSIS_WIDTH = 1000;
+const MAX_SKEW_DEGREES = 15;
+const MIN_SKEW_DEGREES = 0.3;
+// Resolution written to the PNGs; without it Tesseract assumes a very low
+// DPI and misjudges text size
+const OUTPUT_DPI = 300;
+
+// Mean brightness below which an image is treated as light text on a dark
+// background, e.g. a chalkboard
+const DARK_BACKGROUND_MEAN = 100;
+
+/**
+ * Preprocessing applied to an image before OCR. Every variant is grayscale,
+ * scaled and rotated upright; retries cycle through the variants in
+ * `PREPROCESSING_VARIANTS` order:
+ * - `enhanced`: background flattening, deskew and contrast stretch, which
+ *   evens out shadows and glare while keeping faint strokes
+ * - `binarized`: enhanced, then Otsu thresholding to pure black and white
+ * - `minimal`: no further processing, for images the other steps damage
+ */
+export type PreprocessingVariant = "enhanced" | "binarized" | "minimal";
+
+export const PREPROCESSING_VARIANTS: PreprocessingVariant[] = [
+  "enhanced",
+  "binarized",
+  "minimal",
+];
+
+/** 8-bit single-channel image */
+export interface GrayImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+/** Decoded image, scaled for OCR */
+export interface SourceImage extends GrayImage {
+  /** Size of the original image, upright per its EXIF orientation */
+  originalWidth: number;
+  originalHeight: number;
+}
+
+/**
+ * Rotation about the image centre; the canvas grows to fit the rotated
+ * corners.
+ */
+interface ImageRotation {
+  degrees: number; // Clockwise
+  width: number;
+  height: number;
+  rotatedWidth: number;
+  rotatedHeight: number;
+}
+
+/** Maps coordinates in a preprocessed image back onto the original */
+export interface ImageTransform {
+  originalWidth: number;
+  originalHeight: number;
+  scaledWidth: number;
+  scaledHeight: number;
+  rotations: ImageRotation[]; // In the order they were applied
+}
+
+export interface PreprocessedImage {
+  png: Buffer;
+  transform: ImageTransform;
+}
+
+function rawInput(image: GrayImage) {
+  return sharp(image.data, {
+    raw: { width: image.width, height: image.height, channels: 1 },
+  });
+}
+
+async function toGray(pipeline: sharp.Sharp): Promise<GrayImage> {
+  const { data, info } = await pipeline
+    .toColourspace("b-w")
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { data, width: info.width, height: info.height };
+}
+
+/**
+ * Decodes an image into grayscale, applying its EXIF orientation and
+ * scaling it so its long edge is within the range Tesseract handles well.
+ * @throws if the image format cannot be decoded.
+ */
+export async function loadGrayImage(input: Buffer): Promise<SourceImage> {
+  const {
+    width = 0,
+    height = 0,
+    orientation = 1,
+  } = await sharp(input, {
+    limitInputPixels: MAX_INPUT_PIXELS,
+  }).metadata();
+  const longEdge = Math.max(width, height);
+  if (longEdge === 0) throw new Error("Image has no dimensions");
+
+  let pipeline = sharp(input, { limitInputPixels: MAX_INPUT_PIXELS })
+    .autoOrient()
+    .flatten({ background: "#ffffff" })
+    .grayscale();
+
+  if (longEdge < MIN_LONG_EDGE || longEdge > MAX_LONG_EDGE) {
+    const target = longEdge < MIN_LONG_EDGE ? MIN_LONG_EDGE : MAX_LONG_EDGE;
+    pipeline = pipeline.resize({
+      width: target,
+      height: target,
+      fit: "inside",
+      kernel: "lanczos3",
+    });
+  }
+
+  // EXIF orientations 5-8 turn the image by 90 degrees
+  const turned = orientation >= 5;
+  return {
+    ...(await toGray(pipeline)),
+    originalWidth: turned ? height : width,
+    originalHeight: turned ? width : height,
+  };
+}
+
+function toPng(pipeline: sharp.Sharp): Promise<Buffer> {
+  return pipeline.withMetadata({ density: OUTPUT_DPI }).png().toBuffer();
+}
+
+export function encodePng(image: GrayImage): Promise<Buffer> {
+  return toPng(rawInput(image));
+}
+
+/**
+ * Rotates an image clockwise by `degrees`, filling the corners with white.
+ */
+export async function rotateImage(
+  image: GrayImage,
+  degrees: number
+): Promise<GrayImage> {
+  if (degrees % 360 === 0) return image;
+  return toGray(rawInput(image).rotate(degrees, { background: "#ffffff" }));
+}
+
+/**
+ * Rotates an image and records the rotation in `rotations`.
+ */
+async function rotateTracked(
+  image: GrayImage,
+  degrees: number,
+  rotations: ImageRotation[]
+): Promise<GrayImage> {
+  const rotated = await rotateImage(image, degrees);
+  if (rotated !== image) {
+    rotations.push({
+      degrees,
+      width: image.width,
+      height: image.height,
+      rotatedWidth: rotated.width,
+      rotatedHeight: rotated.height,
+    });
+  }
+  return rotated;
+}
+
+/**
+ * Maps a box in a preprocessed image onto the original image. Boxes of
+ * deskewed images become the upright box around the rotated one.
+ */
+export function toOriginalBox(
+  box: OCRBoundingBox,
+  transform: ImageTransform
+): OCRBoundingBox {
+  let corners = [
+    [box.x0, box.y0],
+    [box.x1, box.y0],
+    [box.x0, box.y1],
+    [box.x1, box.y1],
+  ];
+  for (const rotation of [...transform.rotations].reverse()) {
+    const radians = (rotation.degrees * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    corners = corners.map(([x, y]) => {
+      const u = x - rotation.rotatedWidth / 2;
+      const v = y - rotation.rotatedHeight / 2;
+      return [
+        u * cos + v * sin + rotation.width / 2,
+        -u * sin + v * cos + rotation.height / 2,
+      ];
+    });
+  }
+
+  const { originalWidth, originalHeight, scaledWidth, scaledHeight } =
+    transform;
+  const xs = corners.map(([x]) => (x * originalWidth) / scaledWidth);
+  const ys = corners.map(([, y]) => (y * originalHeight) / scaledHeight);
+  const clamp = (value: number, max: number) =>
+    Math.round(Math.min(Math.max(value, 0), max));
+  return {
+    x0: clamp(Math.min(...xs), originalWidth),
+    y0: clamp(Math.min(...ys), originalHeight),
+    x1: clamp(Math.max(...xs), originalWidth),
+    y1: clamp(Math.max(...ys), originalHeight),
+  };
+}
+
+/**
+ * Inverts images with a dark background so text is always dark on light.
+ */
+async function ensureLightBackground(image: GrayImage): Promise<GrayImage> {
+  const { channels } = await rawInput(image).stats();
+  if (channels[0].mean >= DARK_BACKGROUND_MEAN) return image;
+  return toGray(rawInput(image).negate());
+}
+
+/**
+ * Divides each pixel by a blurred estimate of the local background, so
+ * shadows and glare become uniform white while text stays dark. Colour
+ * dodge with the inverted background is that division.
+ */
+async function flattenBackground(image: GrayImage): Promise<GrayImage> {
+  const small = Math.max(1, Math.round(image.width / 16));
+  const inverseBackground = await rawInput(image)
+    .resize({ width: small })
+    .blur(3)
+    .resize({ width: image.width, height: image.height, fit: "fill" })
+    .negate()
+    .toColourspace("b-w")
+    .raw()
+    .toBuffer();
+
+  return toGray(
+    rawInput(image).composite([
+      {
+        input: inverseBackground,
+        raw: { width: image.width, height: image.height, channels: 1 },
+        blend: "colour-dodge",
+      },
+    ])
+  );
+}
+
+/**
+ * Picks the threshold that best separates dark and light pixels (Otsu).
+ * The histogram is taken from a reduced copy, which keeps its shape.
+ */
+async function otsuThreshold(image: GrayImage): Promise<number> {
+  const { data } =
+    image.width > ANALYSIS_WIDTH
+      ? await toGray(rawInput(image).resize({ width: ANALYSIS_WIDTH }))
+      : image;
+
+  const histogram = new Array<number>(256).fill(0);
+  for (const value of data) histogram[value]++;
+
+  let weightedTotal = 0;
+  for (let value = 0; value < 256; value++) {
+    weightedTotal += value * histogram[value];
+  }
+
+  let best = 127;
+  let bestVariance = -1;
+  let darkCount = 0;
+  let darkSum = 0;
+  for (let value = 0; value < 256; value++) {
+    darkCount += histogram[value];
+    if (darkCount === 0) continue;
+    const lightCount = data.length - darkCount;
+    if (lightCount === 0) break;
+
+    darkSum += value * histogram[value];
+    const darkMean = darkSum / darkCount;
+    const lightMean = (weightedTotal - darkSum) / lightCount;
+    const variance = darkCount * lightCount * (darkMean - lightMean) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = value;
+    }
+  }
+  return best;
+}
+
+/**
+ * Turns pixels above the Otsu threshold white and the rest black.
+ */
+async function binarize(image: GrayImage): Promise<sharp.Sharp> {
+  const threshold = await otsuThreshold(image);
+  // sharp whitens pixels at or above its threshold
+  return rawInput(image).threshold(Math.min(threshold + 1, 255));
+}
+
+/**
+ * Estimates how far text lines are tilted, in degrees clockwise, by
+ * finding the rotation whose row projection of dark pixels is sharpest.
+ */
+async function estimateSkew(image: GrayImage): Promise<number> {
+  const scale = Math.min(1, ANALYSIS_WIDTH / image.width);
+  const small =
+    scale < 1
+      ? await toGray(rawInput(image).resize({ width: ANALYSIS_WIDTH }))
+      : image;
+
+  // Only the top edges of dark areas are used: text contributes one per
+  // stroke along each line, while large dark areas such as the desk around
+  // a photographed page contribute only their outline
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let y = 1; y < small.height; y++) {
+    for (let x = 0; x < small.width; x++) {
+      const index = y * small.width + x;
+      if (small.data[index] < 128 && small.data[index - small.width] >= 128) {
+        xs.push(x);
+        ys.push(y);
+      }
+    }
+  }
+  if (xs.length === 0) return 0;
+
+  const diagonal = Math.ceil(Math.hypot(small.width, small.height));
+  const rows = new Float64Array(diagonal * 2 + 1);
+  const sharpness = (degrees: number) => {
+    const radians = (degrees * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    rows.fill(0);
+    for (let i = 0; i < xs.length; i++) {
+      rows[Math.round(xs[i] * sin + ys[i] * cos) + diagonal]++;
+    }
+    let sum = 0;
+    for (const count of rows) sum += count * count;
+    return sum;
+  };
+
+  // Coarse search, then refine around the best coarse angle
+  let best = 0;
+  let bestSharpness = sharpness(0);
+  for (
+    let degrees = -MAX_SKEW_DEGREES;
+    degrees <= MAX_SKEW_DEGREES;
+    degrees++
+  ) {
+    const value = sharpness(degrees);
+    if (value > bestSharpness) {
+      best = degrees;
+      bestSharpness = value;
+    }
+  }
+  const coarse = best;
+  for (let degrees = coarse - 0.9; degrees <= coarse + 0.9; degrees += 0.1) {
+    const value = sharpness(degrees);
+    if (value > bestSharpness) {
+      best = degrees;
+      bestSharpness = value;
+    }
+  }
+  // Rows line up when the points are turned against the tilt
+  return -best;
+}
+
+/**
+ * Renders a preprocessing variant of an image as PNG. `rotation` (degrees
+ * clockwise) corrects the page orientation before any other step.
+ * @returns The PNG and the transform that maps it back onto the original.
+ */
+export async function preprocessImage(
+  image: SourceImage,
+  variant: PreprocessingVariant,
+  rotation = 0
+): Promise<PreprocessedImage> {
+  const transform: ImageTransform = {
+    originalWidth: image.originalWidth,
+    originalHeight: image.originalHeight,
+    scaledWidth: image.width,
+    scaledHeight: image.height,
+    rotations: [],
+  };
+  const upright = await rotateTracked(image, rotation, transform.rotations);
+  if (variant === "minimal") {
+    return { png: await encodePng(upright), transform };
+  }
+
+  let flattened = await flattenBackground(await ensureLightBackground(upright));
+  const skew = await estimateSkew(await toGray(await binarize(flattened)));
+  if (Math.abs(skew) >= MIN_SKEW_DEGREES) {
+    console.log(`📐 Correcting ${skew.toFixed(1)}° skew`);
+    flattened = await rotateTracked(flattened, -skew, transform.rotations);
+  }
+
+  const png =
+    variant === "enhanced"
+      ? await toPng(rawInput(flattened).normalise())
+      : await toPng(await binarize(flattened));
+  return { png, transform };
+}
@@ -0,0 +1,121 @@
+import type { OCRResult } from "../services/ocr.service";
+import type { FileOCRMetadata, OCRPageMetadata } from "../types";
+
+// Words Tesseract is less confident about than this are flagged for review
+export const DEFAULT_LOW_CONFIDENCE_THRESHOLD = 60;
+// Model used for orientation and script detection
+export const OSD_LANGUAGE = "osd";
+
+export interface PageOCRResult {
+  result: OCRResult;
+  pageNumber?: number; // PDFs only
+}
+
+export interface LowConfidenceSpan {
+  start: number; // Offset in the file's extracted text
+  end: number; // Exclusive
+  text: string;
+  confidence: number; // Lowest word confidence in the span
+  pageNumber?: number;
+}
+
+/**
+ * Traineddata files OCR needs: one per language, plus the OSD model.
+ */
+export function requiredTraineddata(
+  languages: string[],
+  gzip: boolean
+): string[] {
+  return [...new Set([...languages, OSD_LANGUAGE])].map(
+    (language) => `${language}.traineddata${gzip ? ".gz" : ""}`
+  );
+}
+
+/**
+ * Combines the OCR results of a file's images or scanned pages.
+ * @returns null when nothing in the file went through OCR.
+ */
+export function buildFileOcrMetadata(
+  fileName: string,
+  results: PageOCRResult[]
+): FileOCRMetadata | null {
+  if (results.length === 0) return null;
+
+  const pages: OCRPageMetadata[] = results
+    .sort((a, b) => (a.pageNumber ?? 0) - (b.pageNumber ?? 0))
+    .map(({ result, pageNumber }) => ({
+      pageNumber,
+      confidence: result.confidence,
+      languages: result.languages,
+      preprocessing: result.preprocessing,
+      lines: result.lines,
+    }));
+
+  const words = pages.flatMap((page) =>
+    page.lines.flatMap((line) => line.words)
+  );
+  const confidence = words.length
+    ? words.reduce((sum, word) => sum + word.confidence, 0) / words.length
+    : pages.reduce((sum, page) => sum + page.confidence, 0) / pages.length;
+
+  return {
+    fileName,
+    confidence: Math.round(confidence * 10) / 10,
+    pages,
+  };
+}
+
+/**
+ * Locates the words OCR was unsure about in a file's extracted text.
+ * Words are matched in reading order, starting at the page's
+ * "--- Page N ---" header for PDFs; consecutive flagged words on a line
+ * are merged into one span. Words that cannot be found (e.g. after the
+ * text was edited) are skipped.
+ */
+export function findLowConfidenceSpans(
+  text: string,
+  metadata: FileOCRMetadata,
+  threshold: number = DEFAULT_LOW_CONFIDENCE_THRESHOLD
+): LowConfidenceSpan[] {
+  const spans: LowConfidenceSpan[] = [];
+
+  for (const page of metadata.pages) {
+    let cursor = 0;
+    if (page.pageNumber !== undefined) {
+      const header = text.indexOf(`--- Page ${page.pageNumber} ---`);
+      if (header === -1) continue;
+      cursor = header;
+    }
+
+    for (const line of page.lines) {
+      let previous: LowConfidenceSpan | null = null;
+      for (const word of line.words) {
+        const start = word.text ? text.indexOf(word.text, cursor) : -1;
+        if (start === -1) continue;
+        const end = start + word.text.length;
+        cursor = end;
+
+        if (word.confidence >= threshold) {
+          previous = null;
+          continue;
+        }
+        if (previous && !text.slice(previous.end, start).trim()) {
+          previous.end = end;
+          previous.text = text.slice(previous.start, end);
+          previous.confidence = Math.min(previous.confidence, word.confidence);
+          continue;
+        }
+        previous = {
+          start,
+          end,
+          text: word.text,
+          confidence: word.confidence,
+          pageNumber: page.pageNumber,
+        };
+        spans.push(previous);
+      }
+    }
+  }
+
+  return spans;
+}
@@ -0,0 +1,80 @@
+import * as pdfParse from "pdf-parse";
+import { pdfToPng } from "pdf-to-png-converter";
+
+// Scale 2 renders at ~144 DPI, enough for Tesseract on typical handouts
+const RASTER_SCALE = 2;
+const RASTER_BATCH_SIZE = 5;
+
+// The parts of pdf.js's page proxy that pdf-parse hands to `pagerender`
+interface PdfPageData {
+  getTextContent(options: {
+    normalizeWhitespace: boolean;
+    disableCombineTextItems: boolean;
+  }): Promise<{ items: { str: string; transform: number[] }[] }>;
+}
+
+/**
+ * Reads the text layer of each page, in page order.
+ */
+export async function readPdfPages(fileBuffer: Buffer): Promise<string[]> {
+  const pages: string[] = [];
+
+  await pdfParse.default(fileBuffer, {
+    // Same line joining as pdf-parse's default renderer, kept per page
+    pagerender: async (pageData: PdfPageData) => {
+      const textContent = await pageData.getTextContent({
+        normalizeWhitespace: false,
+        disableCombineTextItems: false,
+      });
+
+      let lastY: number | undefined;
+      let text = "";
+      for (const item of textContent.items) {
+        const y = item.transform[5];
+        text +=
+          lastY === undefined || lastY === y ? item.str : `\n${item.str}`;
+        lastY = y;
+      }
+
+      pages.push(text);
+      return text;
+    },
+  });
+
+  return pages;
+}
+
+/**
+ * Renders PDF pages to PNG images. Pages are rendered in small batches to
+ * bound memory on long documents.
+ * @param pageNumbers 1-based page numbers; all pages when omitted.
+ */
+export async function* rasterizePdfPages(
+  fileBuffer: Buffer,
+  pageNumbers?: number[]
+): AsyncGenerator<{ pageNumber: number; image: Buffer }> {
+  // pdfjs may detach the buffer it is given, so pass a fresh copy each time
+  const toArrayBuffer = () =>
+    fileBuffer.buffer.slice(
+      fileBuffer.byteOffset,
+      fileBuffer.byteOffset + fileBuffer.byteLength
+    ) as ArrayBuffer;
+
+  const pagesToRender =
+    pageNumbers ||
+    (
+      await pdfToPng(toArrayBuffer(), { returnMetadataOnly: true })
+    ).map((page) => page.pageNumber);
+
+  for (let i = 0; i < pagesToRender.length; i += RASTER_BATCH_SIZE) {
+    const pages = await pdfToPng(toArrayBuffer(), {
+      viewportScale: RASTER_SCALE,
+      pagesToProcess: pagesToRender.slice(i, i + RASTER_BATCH_SIZE),
+    });
+    for (const page of pages) {
+      if (page.content) {
+        yield { pageNumber: page.pageNumber, image: page.content };
+      }
+    }
+  }
+}
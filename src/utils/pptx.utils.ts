@@ -0,0 +1,209 @@
+import JSZip from "jszip";
+import * as path from "path";
+
+const TITLE_PLACEHOLDERS = ["title", "ctrTitle"];
+// Placeholders on notes slides that hold slide chrome rather than notes
+const NOTES_IGNORED_PLACEHOLDERS = ["sldNum", "sldImg", "hdr", "ftr", "dt"];
+
+const XML_ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&apos;": "'",
+};
+
+interface Paragraph {
+  level: number;
+  text: string;
+}
+
+interface SlideContent {
+  title: string | null;
+  body: Paragraph[];
+  notes: Paragraph[];
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&(amp|lt|gt|quot|apos);/g, (entity) => XML_ENTITIES[entity])
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) =>
+      String.fromCodePoint(parseInt(hex, 16))
+    )
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)));
+}
+
+function resolveTarget(baseFile: string, target: string): string {
+  return path.posix.normalize(
+    path.posix.join(path.posix.dirname(baseFile), target)
+  );
+}
+
+/**
+ * Parses a .rels file into a map of relationship id to target path.
+ */
+async function readRelationships(
+  zip: JSZip,
+  relsPath: string,
+  baseFile: string
+): Promise<Map<string, { type: string; target: string }>> {
+  const relationships = new Map<string, { type: string; target: string }>();
+  const xml = await zip.file(relsPath)?.async("string");
+  if (!xml) return relationships;
+
+  for (const match of xml.matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+    const attrs = match[1];
+    const id = attrs.match(/\bId="([^"]+)"/)?.[1];
+    const type = attrs.match(/\bType="([^"]+)"/)?.[1];
+    const target = attrs.match(/\bTarget="([^"]+)"/)?.[1];
+    if (id && type && target) {
+      relationships.set(id, { type, target: resolveTarget(baseFile, target) });
+    }
+  }
+  return relationships;
+}
+
+/**
+ * Returns slide paths in presentation order, falling back to file name
+ * order when presentation.xml cannot be read.
+ */
+async function getSlidePaths(zip: JSZip): Promise<string[]> {
+  const presentationPath = "ppt/presentation.xml";
+  const presentation = await zip.file(presentationPath)?.async("string");
+  const relationships = await readRelationships(
+    zip,
+    "ppt/_rels/presentation.xml.rels",
+    presentationPath
+  );
+
+  const ordered: string[] = [];
+  if (presentation) {
+    const slideIds = presentation.matchAll(/<p:sldId\b[^>]*\br:id="([^"]+)"/g);
+    for (const match of slideIds) {
+      const target = relationships.get(match[1])?.target;
+      if (target && zip.file(target)) ordered.push(target);
+    }
+  }
+  if (ordered.length > 0) return ordered;
+
+  const slideNumber = (name: string) =>
+    Number(name.match(/slide(\d+)\.xml$/)?.[1] ?? 0);
+  return Object.keys(zip.files)
+    .filter((name) => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+    .sort((a, b) => slideNumber(a) - slideNumber(b));
+}
+
+/**
+ * Extracts the non-empty paragraphs of a shape with their bullet level.
+ */
+function readParagraphs(shapeXml: string): Paragraph[] {
+  const paragraphs: Paragraph[] = [];
+
+  for (const match of shapeXml.matchAll(/<a:p>([\s\S]*?)<\/a:p>/g)) {
+    const paragraph = match[1];
+    const text = [
+      ...paragraph.matchAll(/<a:t(?:\s[^>]*)?>([\s\S]*?)<\/a:t>|<a:br\/>/g),
+    ]
+      .map((part) => (part[1] !== undefined ? decodeXml(part[1]) : "\n"))
+      .join("")
+      .trim();
+    if (!text) continue;
+
+    const level = paragraph.match(/<a:pPr\b[^>]*\blvl="(\d+)"/)?.[1];
+    paragraphs.push({ level: Number(level ?? 0), text });
+  }
+  return paragraphs;
+}
+
+function* readShapes(
+  xml: string
+): Generator<{ placeholder: string | null; paragraphs: Paragraph[] }> {
+  for (const match of xml.matchAll(
+    /<p:(sp|graphicFrame)\b[^>]*>([\s\S]*?)<\/p:\1>/g
+  )) {
+    const shape = match[2];
+    const placeholder = /<p:ph\b/.test(shape)
+      ? shape.match(/<p:ph\b[^>]*\btype="([^"]+)"/)?.[1] ?? "body"
+      : null;
+    yield { placeholder, paragraphs: readParagraphs(shape) };
+  }
+}
+
+async function readSlide(
+  zip: JSZip,
+  slidePath: string
+): Promise<SlideContent> {
+  const xml = (await zip.file(slidePath)?.async("string")) || "";
+  const content: SlideContent = { title: null, body: [], notes: [] };
+
+  for (const { placeholder, paragraphs } of readShapes(xml)) {
+    if (
+      content.title === null &&
+      placeholder &&
+      TITLE_PLACEHOLDERS.includes(placeholder)
+    ) {
+      content.title = paragraphs.map((paragraph) => paragraph.text).join(" ");
+    } else {
+      content.body.push(...paragraphs);
+    }
+  }
+
+  const slideName = path.posix.basename(slidePath);
+  const relationships = await readRelationships(
+    zip,
+    `${path.posix.dirname(slidePath)}/_rels/${slideName}.rels`,
+    slidePath
+  );
+  const notesPath = [...relationships.values()].find((rel) =>
+    rel.type.endsWith("/notesSlide")
+  )?.target;
+
+  if (notesPath) {
+    const notesXml = (await zip.file(notesPath)?.async("string")) || "";
+    for (const { placeholder, paragraphs } of readShapes(notesXml)) {
+      if (placeholder && NOTES_IGNORED_PLACEHOLDERS.includes(placeholder)) {
+        continue;
+      }
+      content.notes.push(...paragraphs);
+    }
+  }
+
+  return content;
+}
+
+/**
+ * Extracts text from a .pptx file slide by slide. Each slide is introduced
+ * by a "--- Slide N ---" marker, followed by its title, bullet text and
+ * speaker notes.
+ */
+export async function extractTextFromPptx(
+  fileBuffer: Buffer
+): Promise<string> {
+  const zip = await JSZip.loadAsync(fileBuffer);
+  const slidePaths = await getSlidePaths(zip);
+
+  if (slidePaths.length === 0) {
+    throw new Error("Presentation contains no slides");
+  }
+
+  const sections: string[] = [];
+  for (let i = 0; i < slidePaths.length; i++) {
+    const slide = await readSlide(zip, slidePaths[i]);
+    const lines = [`--- Slide ${i + 1} ---`];
+
+    if (slide.title) lines.push(`Title: ${slide.title}`);
+    for (const { level, text } of slide.body) {
+      lines.push(`${"  ".repeat(level)}• ${text}`);
+    }
+    if (slide.notes.length > 0) {
+      lines.push("Speaker notes:");
+      for (const { level, text } of slide.notes) {
+        lines.push(`${"  ".repeat(level)}${text}`);
+      }
+    }
+
+    sections.push(lines.join("\n"));
+  }
+
+  return sections.join("\n\n");
+}
@@ -0,0 +1,162 @@
+import {
+  DEFAULT_QUIZ_QUESTION_COUNT,
+  isCorrectChoice,
+  MAX_QUIZ_QUESTION_COUNT,
+  normalizeAnswer,
+  parseQuiz,
+  resolveQuizQuestionCount,
+  validateQuiz,
+  withoutQuizAnswers,
+} from "./quiz.utils";
+import type { QuizQuestion, SessionDocument } from "../types";
+
+const multipleChoice = {
+  type: "multiple_choice",
+  question: "Which organelle produces ATP?",
+  options: ["Nucleus", "Mitochondrion", "Ribosome", "Golgi apparatus"],
+  answer: "mitochondrion.",
+  explanation: "Mitochondria run cellular respiration.",
+};
+
+const trueFalse = {
+  type: "true_false",
+  question: "DNA is single-stranded.",
+  answer: false,
+  explanation: "DNA is a double helix.",
+};
+
+const shortAnswer = {
+  type: "short_answer",
+  question: "What does ATP stand for?",
+  answer: "Adenosine triphosphate",
+  explanation: "ATP carries energy within cells.",
+  sourceExcerpt: "  ATP (adenosine triphosphate) ...  ",
+};
+
+describe("resolveQuizQuestionCount", () => {
+  it("clamps and rounds the requested count", () => {
+    expect(resolveQuizQuestionCount(7.4)).toBe(7);
+    expect(resolveQuizQuestionCount(0)).toBe(1);
+    expect(resolveQuizQuestionCount(500)).toBe(MAX_QUIZ_QUESTION_COUNT);
+  });
+
+  it("falls back to the default", () => {
+    expect(resolveQuizQuestionCount()).toBe(DEFAULT_QUIZ_QUESTION_COUNT);
+    expect(resolveQuizQuestionCount(NaN)).toBe(DEFAULT_QUIZ_QUESTION_COUNT);
+  });
+});
+
+describe("normalizeAnswer", () => {
+  it("ignores case, extra whitespace and trailing punctuation", () => {
+    expect(normalizeAnswer("  The   Krebs cycle?! ")).toBe("the krebs cycle");
+  });
+});
+
+describe("validateQuiz", () => {
+  it("accepts each question type and normalizes answers", () => {
+    const { questions, problems } = validateQuiz({
+      questions: [multipleChoice, trueFalse, shortAnswer],
+    });
+
+    expect(problems).toEqual([]);
+    expect(questions.map((question) => question.answer)).toEqual([
+      "Mitochondrion",
+      "false",
+      "Adenosine triphosphate",
+    ]);
+    expect(questions[2].sourceExcerpt).toBe("ATP (adenosine triphosphate) ...");
+    expect(new Set(questions.map((question) => question.id)).size).toBe(3);
+  });
+
+  it("accepts a bare array of questions", () => {
+    expect(validateQuiz([shortAnswer]).questions).toHaveLength(1);
+  });
+
+  it("rejects a value without questions", () => {
+    expect(validateQuiz({ quiz: [] })).toEqual({
+      questions: [],
+      problems: ['Expected an object with a "questions" array.'],
+    });
+  });
+
+  it.each([
+    ["an unknown type", { ...shortAnswer, type: "essay" }, '"type"'],
+    ["an empty question", { ...shortAnswer, question: " " }, '"question"'],
+    ["no explanation", { ...shortAnswer, explanation: "" }, '"explanation"'],
+    ["no answer", { ...shortAnswer, answer: "" }, '"answer"'],
+    [
+      "too few options",
+      { ...multipleChoice, options: ["Nucleus", "Mitochondrion"] },
+      '"options" must be 3 to 6',
+    ],
+    [
+      "duplicate options",
+      {
+        ...multipleChoice,
+        options: ["Nucleus", "nucleus.", "Mitochondrion"],
+      },
+      '"options" must be distinct',
+    ],
+    [
+      "an answer outside the options",
+      { ...multipleChoice, answer: "Chloroplast" },
+      "must be one of the options",
+    ],
+    [
+      "a true/false answer that is neither",
+      { ...trueFalse, answer: "maybe" },
+      'must be "true" or "false"',
+    ],
+  ])("drops a question with %s", (_case, question, problem) => {
+    const { questions, problems } = validateQuiz([question, shortAnswer]);
+
+    expect(questions).toHaveLength(1);
+    expect(problems).toHaveLength(1);
+    expect(problems[0]).toContain("Question 0:");
+    expect(problems[0]).toContain(problem);
+  });
+});
+
+describe("parseQuiz", () => {
+  it("parses JSON wrapped in a code fence", () => {
+    const raw = `\`\`\`json\n${JSON.stringify({ questions: [trueFalse] })}\n\`\`\``;
+    expect(parseQuiz(raw).questions).toHaveLength(1);
+  });
+
+  it("reports invalid JSON", () => {
+    const { questions, problems } = parseQuiz("{ not json");
+    expect(questions).toEqual([]);
+    expect(problems[0]).toMatch(/^Invalid JSON/);
+  });
+});
+
+describe("isCorrectChoice", () => {
+  const question: QuizQuestion = {
+    id: "q1",
+    type: "true_false",
+    question: "DNA is single-stranded.",
+    answer: "false",
+    explanation: "DNA is a double helix.",
+  };
+
+  it("compares normalized answers", () => {
+    expect(isCorrectChoice(question, " False. ")).toBe(true);
+    expect(isCorrectChoice(question, "true")).toBe(false);
+  });
+});
+
+describe("withoutQuizAnswers", () => {
+  it("strips answers, explanations and excerpts", () => {
+    const { questions } = validateQuiz([multipleChoice, shortAnswer]);
+    const session = { id: "s1", quiz: questions } as SessionDocument;
+
+    for (const question of withoutQuizAnswers(session).quiz!) {
+      expect(question).not.toHaveProperty("answer");
+      expect(question).not.toHaveProperty("explanation");
+      expect(question).not.toHaveProperty("sourceExcerpt");
+    }
+    expect(withoutQuizAnswers(session).quiz![0].options).toEqual(
+      multipleChoice.options
+    );
+  });
+});
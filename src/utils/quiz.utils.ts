@@ -0,0 +1,213 @@
+import { randomUUID } from "crypto";
+import type { QuizQuestion, QuizQuestionType, SessionDocument } from "../types";
+import { extractJson } from "./flashcard.utils";
+
+export const DEFAULT_QUIZ_QUESTION_COUNT = 10;
+export const MAX_QUIZ_QUESTION_COUNT = 50;
+export const MAX_QUIZ_ANSWER_LENGTH = 2000;
+
+export const QUIZ_QUESTION_TYPES: QuizQuestionType[] = [
+  "multiple_choice",
+  "true_false",
+  "short_answer",
+];
+
+const MIN_OPTIONS = 3;
+const MAX_OPTIONS = 6;
+
+/** A quiz question as shown before it is answered */
+export type UnansweredQuizQuestion = Omit<
+  QuizQuestion,
+  "answer" | "explanation" | "sourceExcerpt"
+>;
+
+/**
+ * Clamps a requested question count to the supported range, falling back
+ * to the default when it is missing or not a number.
+ */
+export function resolveQuizQuestionCount(count?: number): number {
+  if (typeof count !== "number" || !Number.isFinite(count)) {
+    return DEFAULT_QUIZ_QUESTION_COUNT;
+  }
+  return Math.min(Math.max(Math.round(count), 1), MAX_QUIZ_QUESTION_COUNT);
+}
+
+/**
+ * Normalizes an answer for comparison: case, surrounding whitespace and
+ * trailing punctuation are ignored.
+ */
+export function normalizeAnswer(answer: string): string {
+  return answer
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/[.!?]+$/, "");
+}
+
+/**
+ * Validates a parsed value against the QuizQuestion shape and gives each
+ * question an id. Accepts either an array of questions or an object with a
+ * `questions` array.
+ * @returns The validated questions and a list of problems found.
+ */
+export function validateQuiz(value: unknown): {
+  questions: QuizQuestion[];
+  problems: string[];
+} {
+  const list = Array.isArray(value)
+    ? value
+    : value && typeof value === "object" && "questions" in value
+    ? (value as { questions: unknown }).questions
+    : null;
+
+  if (!Array.isArray(list)) {
+    return {
+      questions: [],
+      problems: ['Expected an object with a "questions" array.'],
+    };
+  }
+
+  const questions: QuizQuestion[] = [];
+  const problems: string[] = [];
+
+  list.forEach((item, i) => {
+    if (!item || typeof item !== "object") {
+      problems.push(`Question ${i}: must be an object.`);
+      return;
+    }
+    const input = item as Record<string, unknown>;
+    const type = input.type as QuizQuestionType;
+
+    if (!QUIZ_QUESTION_TYPES.includes(type)) {
+      problems.push(
+        `Question ${i}: "type" must be one of ${QUIZ_QUESTION_TYPES.join(
+          ", "
+        )}.`
+      );
+      return;
+    }
+    if (typeof input.question !== "string" || !input.question.trim()) {
+      problems.push(`Question ${i}: "question" must be a non-empty string.`);
+      return;
+    }
+    if (typeof input.explanation !== "string" || !input.explanation.trim()) {
+      problems.push(`Question ${i}: "explanation" must be a non-empty string.`);
+      return;
+    }
+
+    // Models often answer true/false questions with a JSON boolean
+    const rawAnswer =
+      typeof input.answer === "boolean" ? String(input.answer) : input.answer;
+    if (typeof rawAnswer !== "string" || !rawAnswer.trim()) {
+      problems.push(`Question ${i}: "answer" must be a non-empty string.`);
+      return;
+    }
+
+    const question: QuizQuestion = {
+      id: randomUUID(),
+      type,
+      question: input.question.trim(),
+      answer: rawAnswer.trim(),
+      explanation: input.explanation.trim(),
+    };
+
+    if (type === "multiple_choice") {
+      const { options } = input;
+      if (
+        !Array.isArray(options) ||
+        options.length < MIN_OPTIONS ||
+        options.length > MAX_OPTIONS ||
+        !options.every((option) => typeof option === "string" && option.trim())
+      ) {
+        problems.push(
+          `Question ${i}: "options" must be ${MIN_OPTIONS} to ${MAX_OPTIONS} non-empty strings.`
+        );
+        return;
+      }
+      question.options = (options as string[]).map((option) => option.trim());
+
+      const normalized = question.options.map(normalizeAnswer);
+      if (new Set(normalized).size !== normalized.length) {
+        problems.push(`Question ${i}: "options" must be distinct.`);
+        return;
+      }
+      const correct = normalized.indexOf(normalizeAnswer(question.answer));
+      if (correct === -1) {
+        problems.push(`Question ${i}: "answer" must be one of the options.`);
+        return;
+      }
+      question.answer = question.options[correct];
+    }
+
+    if (type === "true_false") {
+      const answer = normalizeAnswer(question.answer);
+      if (answer !== "true" && answer !== "false") {
+        problems.push(`Question ${i}: "answer" must be "true" or "false".`);
+        return;
+      }
+      question.answer = answer;
+    }
+
+    if (input.sourceFile !== undefined) {
+      if (typeof input.sourceFile === "string") {
+        question.sourceFile = input.sourceFile;
+      } else {
+        problems.push(`Question ${i}: "sourceFile" must be a string.`);
+      }
+    }
+
+    if (input.sourceExcerpt !== undefined) {
+      if (typeof input.sourceExcerpt === "string") {
+        question.sourceExcerpt = input.sourceExcerpt.trim();
+      } else {
+        problems.push(`Question ${i}: "sourceExcerpt" must be a string.`);
+      }
+    }
+
+    questions.push(question);
+  });
+
+  return { questions, problems };
+}
+
+/**
+ * Parses raw model output into validated quiz questions.
+ */
+export function parseQuiz(raw: string): {
+  questions: QuizQuestion[];
+  problems: string[];
+} {
+  try {
+    return validateQuiz(JSON.parse(extractJson(raw)));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return { questions: [], problems: [`Invalid JSON: ${message}`] };
+  }
+}
+
+/**
+ * Grades a multiple-choice or true/false answer against the correct one.
+ */
+export function isCorrectChoice(
+  question: QuizQuestion,
+  answer: string
+): boolean {
+  return normalizeAnswer(answer) === normalizeAnswer(question.answer);
+}
+
+/**
+ * Strips the answers, explanations and source excerpts from a session's
+ * quiz, so it cannot be read off before it is taken. Graded attempts
+ * return them.
+ */
+export function withoutQuizAnswers(
+  session: SessionDocument
+): Omit<SessionDocument, "quiz"> & { quiz?: UnansweredQuizQuestion[] } {
+  if (!session.quiz) return session;
+  return {
+    ...session,
+    quiz: session.quiz.map(
+      ({ answer, explanation, sourceExcerpt, ...question }) => question
+    ),
+  };
+}
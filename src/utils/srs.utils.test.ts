@@ -0,0 +1,71 @@
+import { initialReviewState, scheduleReview } from "./srs.utils";
+
+const NOW = new Date("2025-01-01T00:00:00.000Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysAfterNow = (days: number) =>
+  new Date(NOW.getTime() + days * DAY_MS).toISOString();
+
+describe("initialReviewState", () => {
+  it("is due immediately with the default ease", () => {
+    expect(initialReviewState(NOW)).toEqual({
+      ease_factor: 2.5,
+      interval_days: 0,
+      repetitions: 0,
+      lapses: 0,
+      due_at: NOW.toISOString(),
+      last_reviewed_at: null,
+    });
+  });
+});
+
+describe("scheduleReview", () => {
+  it("schedules successful reviews 1, 6, then interval × ease days out", () => {
+    let state = initialReviewState(NOW);
+    const intervals: number[] = [];
+    for (let i = 0; i < 4; i++) {
+      state = scheduleReview(state, 4, NOW);
+      intervals.push(state.interval_days);
+    }
+
+    expect(intervals).toEqual([1, 6, 15, 38]);
+    expect(state.repetitions).toBe(4);
+    expect(state.ease_factor).toBe(2.5);
+    expect(state.due_at).toBe(daysAfterNow(38));
+    expect(state.last_reviewed_at).toBe(NOW.toISOString());
+  });
+
+  it.each([
+    [5, 2.6],
+    [4, 2.5],
+    [3, 2.36],
+    [2, 2.18],
+    [1, 1.96],
+    [0, 1.7],
+  ])("adjusts the ease factor for grade %i to %d", (grade, easeFactor) => {
+    const state = scheduleReview(initialReviewState(NOW), grade, NOW);
+    expect(state.ease_factor).toBe(easeFactor);
+  });
+
+  it("restarts a card after a failed recall and counts the lapse", () => {
+    const learned = {
+      ...initialReviewState(NOW),
+      interval_days: 15,
+      repetitions: 3,
+    };
+    const state = scheduleReview(learned, 2, NOW);
+
+    expect(state.repetitions).toBe(0);
+    expect(state.interval_days).toBe(1);
+    expect(state.lapses).toBe(1);
+    expect(state.due_at).toBe(daysAfterNow(1));
+  });
+
+  it("keeps the ease factor at or above 1.3", () => {
+    let state = initialReviewState(NOW);
+    for (let i = 0; i < 10; i++) state = scheduleReview(state, 0, NOW);
+
+    expect(state.ease_factor).toBe(1.3);
+    expect(state.lapses).toBe(10);
+  });
+});
@@ -0,0 +1,68 @@
+// SM-2 spaced repetition scheduling
+// (https://super-memory.com/english/ol/sm2.htm)
+import type { FlashcardReviewState } from "../types";
+
+export const MIN_GRADE = 0;
+export const MAX_GRADE = 5;
+// Grades below this count as a failed recall and restart the card
+export const PASSING_GRADE = 3;
+
+const INITIAL_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Scheduling state of a card that has never been reviewed; it is due
+ * immediately.
+ */
+export function initialReviewState(
+  now: Date = new Date()
+): FlashcardReviewState {
+  return {
+    ease_factor: INITIAL_EASE_FACTOR,
+    interval_days: 0,
+    repetitions: 0,
+    lapses: 0,
+    due_at: now.toISOString(),
+    last_reviewed_at: null,
+  };
+}
+
+/**
+ * Applies a review to a card's scheduling state.
+ * @param grade Recall quality from 0 (blackout) to 5 (perfect recall).
+ */
+export function scheduleReview(
+  state: FlashcardReviewState,
+  grade: number,
+  now: Date = new Date()
+): FlashcardReviewState {
+  const passed = grade >= PASSING_GRADE;
+
+  let repetitions = 0;
+  let intervalDays = 1;
+  if (passed) {
+    repetitions = state.repetitions + 1;
+    intervalDays =
+      repetitions === 1
+        ? 1
+        : repetitions === 2
+        ? 6
+        : Math.round(state.interval_days * state.ease_factor);
+  }
+
+  const miss = MAX_GRADE - grade;
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    state.ease_factor + (0.1 - miss * (0.08 + miss * 0.02))
+  );
+
+  return {
+    ease_factor: Math.round(easeFactor * 100) / 100,
+    interval_days: intervalDays,
+    repetitions,
+    lapses: state.lapses + (passed ? 0 : 1),
+    due_at: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+    last_reviewed_at: now.toISOString(),
+  };
+}
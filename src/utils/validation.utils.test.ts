@@ -0,0 +1,46 @@
+import { MAX_QUIZ_ANSWER_LENGTH } from "./quiz.utils";
+import { validateQuizAnswers } from "./validation.utils";
+
+describe("validateQuizAnswers", () => {
+  it("accepts string answers and converts booleans", () => {
+    expect(
+      validateQuizAnswers([
+        { questionId: "q1", answer: "Mitochondrion" },
+        { questionId: "q2", answer: false },
+        { questionId: "q3", answer: "" },
+      ])
+    ).toEqual({
+      answers: [
+        { questionId: "q1", answer: "Mitochondrion" },
+        { questionId: "q2", answer: "false" },
+        { questionId: "q3", answer: "" },
+      ],
+      errors: [],
+    });
+  });
+
+  it("rejects a value that is not an array", () => {
+    expect(validateQuizAnswers({ q1: "a" })).toEqual({
+      answers: [],
+      errors: ["answers must be an array."],
+    });
+  });
+
+  it("reports each invalid answer by index", () => {
+    const { answers, errors } = validateQuizAnswers([
+      null,
+      { questionId: "", answer: "a" },
+      { questionId: "q3", answer: 42 },
+      { questionId: "q4", answer: "x".repeat(MAX_QUIZ_ANSWER_LENGTH + 1) },
+      { questionId: "q5", answer: "ok" },
+    ]);
+
+    expect(answers).toEqual([{ questionId: "q5", answer: "ok" }]);
+    expect(errors).toEqual([
+      "answers[0] must be an object.",
+      "answers[1].questionId must be a non-empty string.",
+      expect.stringMatching(/^answers\[2\]\.answer must be/),
+      expect.stringMatching(/^answers\[3\]\.answer must be/),
+    ]);
+  });
+});
@@ -0,0 +1,311 @@
+import type {
+  DocumentProcessingPreferences,
+  LLMProvider,
+  OCRLanguages,
+  SessionFileInput,
+} from "../types";
+import { isUserAsset } from "../config/cloudinary";
+import { OCR_LANGUAGES } from "../config/env";
+import { LLM_PROVIDERS } from "../services/llm.service";
+import { isAllowedDownloadUrl } from "./download.utils";
+import { MAX_FLASHCARD_COUNT } from "./flashcard.utils";
+import { MAX_QUIZ_ANSWER_LENGTH, MAX_QUIZ_QUESTION_COUNT } from "./quiz.utils";
+
+export const MAX_FILES_PER_SESSION = 20;
+export const MAX_TITLE_LENGTH = 200;
+export const MAX_OCR_LANGUAGES = 5;
+export const MAX_FILE_TEXT_LENGTH = 1_000_000;
+// Request body limit for corrected file text: MAX_FILE_TEXT_LENGTH
+// characters of up to 4 UTF-8 bytes each
+export const FILE_TEXT_BODY_LIMIT = "4mb";
+
+const PREFERENCE_FLAGS = [
+  "generateSummary",
+  "generateFlashcards",
+  "generateStudyGuide",
+] as const;
+// Flags added later, which older sessions' preferences do not have
+const OPTIONAL_PREFERENCE_FLAGS = ["generateQuiz"] as const;
+
+/**
+ * Parses an optional positive integer query parameter.
+ * @returns The fallback when absent, or null when invalid.
+ */
+export function parsePositiveInt(
+  value: unknown,
+  fallback: number
+): number | null {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+/**
+ * Validates a session's file list against SessionFileInput. A `publicId`
+ * must belong to one of the user's own uploads. `mimeType` and `size` are
+ * rejected, since they are read from the upload.
+ * @returns The normalized files and a list of validation errors.
+ */
+export function validateFiles(
+  value: unknown,
+  userId: string
+): {
+  files: SessionFileInput[];
+  errors: string[];
+} {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { files: [], errors: ["files must be a non-empty array."] };
+  }
+  if (value.length > MAX_FILES_PER_SESSION) {
+    return {
+      files: [],
+      errors: [
+        `files cannot contain more than ${MAX_FILES_PER_SESSION} items.`,
+      ],
+    };
+  }
+
+  const files: SessionFileInput[] = [];
+  const errors: string[] = [];
+
+  value.forEach((item, i) => {
+    if (!item || typeof item !== "object") {
+      errors.push(`files[${i}] must be an object.`);
+      return;
+    }
+    const file = item as Record<string, unknown>;
+    const before = errors.length;
+
+    if (!isNonEmptyString(file.fileName)) {
+      errors.push(`files[${i}].fileName must be a non-empty string.`);
+    }
+    if (
+      !isNonEmptyString(file.cloudStorageUrl) ||
+      !isAllowedDownloadUrl(file.cloudStorageUrl)
+    ) {
+      errors.push(
+        `files[${i}].cloudStorageUrl must be an https URL on an allowed storage host.`
+      );
+    }
+    for (const field of ["mimeType", "size"]) {
+      if (file[field] !== undefined) {
+        errors.push(
+          `files[${i}].${field} cannot be set; it is read from the upload.`
+        );
+      }
+    }
+    if (file.publicId !== undefined) {
+      if (!isNonEmptyString(file.publicId)) {
+        errors.push(`files[${i}].publicId must be a non-empty string.`);
+      } else if (!isUserAsset(file.publicId, userId)) {
+        errors.push(`files[${i}].publicId must be one of your uploads.`);
+      }
+    }
+    if (
+      file.resourceType !== undefined &&
+      file.resourceType !== "image" &&
+      file.resourceType !== "raw"
+    ) {
+      errors.push(`files[${i}].resourceType must be "image" or "raw".`);
+    }
+
+    if (errors.length === before) {
+      files.push({
+        fileName: (file.fileName as string).trim(),
+        cloudStorageUrl: file.cloudStorageUrl as string,
+        ...(file.publicId !== undefined && {
+          publicId: file.publicId as string,
+        }),
+        ...(file.resourceType !== undefined && {
+          resourceType: file.resourceType as "image" | "raw",
+        }),
+      });
+    }
+  });
+
+  return { files, errors };
+}
+
+/**
+ * Validates processing preferences against DocumentProcessingPreferences.
+ * At least one artifact must be requested.
+ * @returns The normalized preferences and a list of validation errors.
+ */
+export function validatePreferences(value: unknown): {
+  preferences: DocumentProcessingPreferences | null;
+  errors: string[];
+} {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { preferences: null, errors: ["preferences must be an object."] };
+  }
+  const input = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  for (const flag of PREFERENCE_FLAGS) {
+    if (typeof input[flag] !== "boolean") {
+      errors.push(`preferences.${flag} must be a boolean.`);
+    }
+  }
+  for (const flag of OPTIONAL_PREFERENCE_FLAGS) {
+    if (input[flag] !== undefined && typeof input[flag] !== "boolean") {
+      errors.push(`preferences.${flag} must be a boolean.`);
+    }
+  }
+  if (
+    errors.length === 0 &&
+    ![...PREFERENCE_FLAGS, ...OPTIONAL_PREFERENCE_FLAGS].some(
+      (flag) => input[flag] === true
+    )
+  ) {
+    errors.push("preferences must enable at least one output.");
+  }
+
+  if (
+    input.flashcardCount !== undefined &&
+    (!Number.isInteger(input.flashcardCount) ||
+      (input.flashcardCount as number) < 1 ||
+      (input.flashcardCount as number) > MAX_FLASHCARD_COUNT)
+  ) {
+    errors.push(
+      `preferences.flashcardCount must be an integer from 1 to ${MAX_FLASHCARD_COUNT}.`
+    );
+  }
+
+  if (
+    input.quizQuestionCount !== undefined &&
+    (!Number.isInteger(input.quizQuestionCount) ||
+      (input.quizQuestionCount as number) < 1 ||
+      (input.quizQuestionCount as number) > MAX_QUIZ_QUESTION_COUNT)
+  ) {
+    errors.push(
+      `preferences.quizQuestionCount must be an integer from 1 to ${MAX_QUIZ_QUESTION_COUNT}.`
+    );
+  }
+
+  if (
+    input.llmProvider !== undefined &&
+    !LLM_PROVIDERS.includes(input.llmProvider as LLMProvider)
+  ) {
+    errors.push(
+      `preferences.llmProvider must be one of ${LLM_PROVIDERS.join(", ")}.`
+    );
+  }
+
+  const { ocrLanguages } = input;
+  if (
+    ocrLanguages !== undefined &&
+    ocrLanguages !== "auto" &&
+    (!Array.isArray(ocrLanguages) ||
+      ocrLanguages.length === 0 ||
+      ocrLanguages.length > MAX_OCR_LANGUAGES ||
+      !ocrLanguages.every((language) => OCR_LANGUAGES.includes(language)))
+  ) {
+    errors.push(
+      `preferences.ocrLanguages must be "auto" or 1 to ${MAX_OCR_LANGUAGES} of ${OCR_LANGUAGES.join(
+        ", "
+      )}.`
+    );
+  }
+
+  if (errors.length > 0) return { preferences: null, errors };
+
+  return {
+    preferences: {
+      generateSummary: input.generateSummary as boolean,
+      generateFlashcards: input.generateFlashcards as boolean,
+      generateStudyGuide: input.generateStudyGuide as boolean,
+      ...(input.generateQuiz !== undefined && {
+        generateQuiz: input.generateQuiz as boolean,
+      }),
+      ...(input.flashcardCount !== undefined && {
+        flashcardCount: input.flashcardCount as number,
+      }),
+      ...(input.quizQuestionCount !== undefined && {
+        quizQuestionCount: input.quizQuestionCount as number,
+      }),
+      ...(input.llmProvider !== undefined && {
+        llmProvider: input.llmProvider as LLMProvider,
+      }),
+      ...(ocrLanguages !== undefined && {
+        ocrLanguages: (ocrLanguages === "auto"
+          ? "auto"
+          : [...new Set(ocrLanguages as string[])]) as OCRLanguages,
+      }),
+    },
+    errors,
+  };
+}
+
+/**
+ * Validates an optional session title.
+ */
+export function validateTitle(value: unknown): string[] {
+  if (value === undefined || value === null) return [];
+  if (typeof value !== "string" || value.length > MAX_TITLE_LENGTH) {
+    return [
+      `title must be a string of at most ${MAX_TITLE_LENGTH} characters.`,
+    ];
+  }
+  return [];
+}
+
+/**
+ * Validates a file's edited extracted text.
+ */
+export function validateFileText(value: unknown): string[] {
+  if (
+    typeof value !== "string" ||
+    !value.trim() ||
+    value.length > MAX_FILE_TEXT_LENGTH
+  ) {
+    return [
+      `text must be a non-empty string of at most ${MAX_FILE_TEXT_LENGTH} characters.`,
+    ];
+  }
+  return [];
+}
+
+/**
+ * Validates submitted quiz answers. True/false answers may be booleans.
+ * @returns The answers as strings and a list of validation errors.
+ */
+export function validateQuizAnswers(value: unknown): {
+  answers: { questionId: string; answer: string }[];
+  errors: string[];
+} {
+  if (!Array.isArray(value)) {
+    return { answers: [], errors: ["answers must be an array."] };
+  }
+
+  const answers: { questionId: string; answer: string }[] = [];
+  const errors: string[] = [];
+
+  value.forEach((item, i) => {
+    if (!item || typeof item !== "object") {
+      errors.push(`answers[${i}] must be an object.`);
+      return;
+    }
+    const { questionId, answer } = item as Record<string, unknown>;
+
+    if (!isNonEmptyString(questionId)) {
+      errors.push(`answers[${i}].questionId must be a non-empty string.`);
+      return;
+    }
+    if (
+      typeof answer === "boolean" ||
+      (typeof answer === "string" && answer.length <= MAX_QUIZ_ANSWER_LENGTH)
+    ) {
+      answers.push({ questionId, answer: String(answer) });
+    } else {
+      errors.push(
+        `answers[${i}].answer must be a boolean or a string of at most ${MAX_QUIZ_ANSWER_LENGTH} characters.`
+      );
+    }
+  });
+
+  return { answers, errors };
+}